@@ -0,0 +1,68 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import type EditorJS from "@editorjs/editorjs";
+import type { MessageData } from "../../src/index";
+
+describe("Block versions", () => {
+    const holder = "versions-holder"
+    let editor: EditorJS
+    let receive: (data: MessageData) => void
+
+    beforeEach(() => {
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        cy.window().then(win => {
+            const holderElement = win.document.createElement("div")
+            holderElement.id = holder
+            win.document.body.append(holderElement)
+
+            editor = new win.EditorJS({
+                holder,
+                data: { blocks: [{ id: "block1", type: "paragraph", data: { text: "Original" } }] },
+            })
+            return editor.isReady
+        })
+        cy.window().then(win => {
+            const collab = new win.RealtimeCollabPlugin({
+                editor,
+                socket: {
+                    send: () => {},
+                    on: callback => { receive = callback },
+                    off: () => {},
+                    connectionId: "alice",
+                },
+            })
+            collab.listen()
+            // users that do not say hello are older than the handshake and ignored
+            receive({ type: "protocol-hello", connectionId: "bob", protocolVersion: 4, minProtocolVersion: 2, capabilities: ["document-sync", "block-versions"] })
+            receive({ type: "user-presence-announce", connectionId: "bob", user: { name: "Bob" }, role: "editor", isIdle: false })
+            cy.wrap(collab).as("collab")
+        })
+    })
+
+    const changeBlock = (text: string, clock: number): MessageData => ({
+        type: "block-changed",
+        index: 0,
+        block: { id: "block1", tool: "paragraph", data: { text }, time: Date.now() },
+        version: { clock, connectionId: "bob" },
+    })
+
+    it("Drops changes that are older than the current version of the block", () => {
+        receive(changeBlock("Newest", 5))
+        receive(changeBlock("Stale", 3))
+        cy.wait(200)
+
+        cy.then(() => editor.save()).then(({ blocks }) => {
+            expect(blocks[0].data.text).to.eq("Newest")
+        })
+        cy.get("@collab").its("blockVersions.block1").should("deep.eq", { clock: 5, connectionId: "bob" })
+    })
+
+    it("Applies changes that arrive in order", () => {
+        receive(changeBlock("First", 3))
+        receive(changeBlock("Second", 5))
+        cy.wait(200)
+
+        cy.then(() => editor.save()).then(({ blocks }) => {
+            expect(blocks[0].data.text).to.eq("Second")
+        })
+    })
+})
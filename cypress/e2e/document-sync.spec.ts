@@ -0,0 +1,41 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import { createCollabEditor, createRelay, getBlockSelector, paragraphBlocks, type CollabEditor, type CollabRelay } from "../support/collab";
+
+describe("Document sync", () => {
+    let relay: CollabRelay
+    let alice: CollabEditor
+    let bob: CollabEditor
+
+    beforeEach(() => {
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        relay = createRelay()
+        cy.window().then(async win => {
+            alice = await createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks })
+        })
+    })
+
+    it("A user joining late gets the document of the others", () => {
+        cy.then(() => alice.collab.lockBlock("block1", { reason: "Reviewing" }))
+        cy.window().then(async win => {
+            bob = await createCollabEditor(win, relay, { connectionId: "bob", syncOnListen: true })
+        })
+
+        cy.get(getBlockSelector("bob")).should("have.text", "Original")
+        cy.wrap(null).should(() => {
+            expect(bob.collab.lockedBlocks[0]).to.include({ blockId: "block1", connectionId: "alice", reason: "Reviewing" })
+            expect(bob.collab.blockVersions).to.deep.eq(alice.collab.blockVersions)
+        })
+    })
+
+    it("Viewers do not answer sync requests", () => {
+        cy.then(() => alice.collab.unlisten())
+        cy.window().then(async win => {
+            await createCollabEditor(win, relay, { connectionId: "carol", blocks: paragraphBlocks, role: "viewer" })
+            bob = await createCollabEditor(win, relay, { connectionId: "bob", syncOnListen: true, syncResponseTimeout: 500 })
+        })
+
+        cy.wait(700)
+        cy.then(() => expect(relay.messages.some(m => m.data.type === "document-sync-response")).to.eq(false))
+        cy.get(getBlockSelector("bob")).should("not.have.text", "Original")
+    })
+})
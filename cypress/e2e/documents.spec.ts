@@ -0,0 +1,52 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import { changeBlockMessage, createCollabEditor, createRelay, getBlockSelector, helloMessage, paragraphBlocks, type CollabEditor, type CollabRelay } from "../support/collab";
+
+describe("Documents", () => {
+    let relay: CollabRelay
+    let alice: CollabEditor
+    let bob: CollabEditor
+    let carol: CollabEditor
+
+    beforeEach(() => {
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        relay = createRelay()
+        cy.window().then(async win => {
+            alice = await createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, documentId: "first" })
+            bob = await createCollabEditor(win, relay, { connectionId: "bob", blocks: paragraphBlocks, documentId: "first" })
+            carol = await createCollabEditor(win, relay, { connectionId: "carol", blocks: paragraphBlocks, documentId: "second" })
+        })
+    })
+
+    it("Only lists the users of the same document", () => {
+        cy.wrap(null).should(() => {
+            expect(alice.collab.users.map(u => u.connectionId)).to.deep.eq(["bob"])
+            expect(carol.collab.users).to.have.length(0)
+        })
+    })
+
+    it("Applies changes only to the editor of their document", () => {
+        cy.then(() => {
+            relay.receive("dave", { ...helloMessage("dave"), documentId: "second" })
+            relay.receive("dave", { ...changeBlockMessage("dave", "Changed in the second document", 1), documentId: "second" })
+        })
+        cy.get(getBlockSelector("carol")).should("have.text", "Changed in the second document")
+        cy.get(getBlockSelector("alice")).should("have.text", "Original")
+        cy.get(getBlockSelector("bob")).should("have.text", "Original")
+    })
+
+    it("Ignores messages without a document", () => {
+        cy.then(() => {
+            relay.receive("dave", helloMessage("dave"))
+            relay.receive("dave", changeBlockMessage("dave", "Changed without a document", 1))
+        })
+        cy.wait(200)
+        cy.get(getBlockSelector("alice")).should("have.text", "Original")
+        cy.get(getBlockSelector("carol")).should("have.text", "Original")
+    })
+
+    it("Keeps locks in their document", () => {
+        cy.then(() => alice.collab.lockBlock("block1"))
+        cy.wrap(null).should(() => expect(bob.collab.lockedBlocks.map(b => b.connectionId)).to.deep.eq(["alice"]))
+        cy.then(() => expect(carol.collab.lockedBlocks).to.have.length(0))
+    })
+})
@@ -0,0 +1,59 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import { createCollabEditor, createRelay, getLockOwners, paragraphBlocks, type CollabEditor, type CollabRelay } from "../support/collab";
+
+describe("Edit requests", () => {
+    let relay: CollabRelay
+    let alice: CollabEditor
+    let bob: CollabEditor
+    let isHandedOver: boolean | undefined
+
+    beforeEach(() => {
+        isHandedOver = undefined
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        relay = createRelay()
+        cy.window().then(async win => {
+            const editRequests = { requestOnClick: false, gracePeriod: 500 }
+            alice = await createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, editRequests, onEditRequested: () => isHandedOver })
+            bob = await createCollabEditor(win, relay, { connectionId: "bob", blocks: paragraphBlocks, editRequests })
+        })
+        cy.then(() => alice.collab.lockBlock("block1"))
+        cy.wrap(null).should(() => expect(getLockOwners(bob)).to.deep.eq(["alice"]))
+    })
+
+    it("The owner hands the block over", () => {
+        const onAnswered = cy.stub()
+        cy.then(() => {
+            isHandedOver = true
+            bob.collab.on("edit-request-answered", onAnswered)
+            expect(bob.collab.requestEdit("block1")).to.eq(true)
+        })
+        cy.wrap(null).should(() => {
+            expect(onAnswered).to.have.been.calledOnceWith({ blockId: "block1", connectionId: "alice", outcome: "accepted" })
+            expect(getLockOwners(alice)).to.deep.eq(["bob"])
+        })
+    })
+
+    it("The owner keeps the block", () => {
+        const onAnswered = cy.stub()
+        cy.then(() => {
+            isHandedOver = false
+            bob.collab.on("edit-request-answered", onAnswered)
+            bob.collab.requestEdit("block1")
+        })
+        cy.wrap(null).should(() => expect(onAnswered).to.have.been.calledOnceWith({ blockId: "block1", connectionId: "alice", outcome: "denied" }))
+        cy.wait(700)
+        cy.then(() => expect(getLockOwners(bob)).to.deep.eq(["alice"]))
+    })
+
+    it("The block is taken over when the owner does not answer", () => {
+        const onAnswered = cy.stub()
+        cy.then(() => {
+            bob.collab.on("edit-request-answered", onAnswered)
+            bob.collab.requestEdit("block1")
+        })
+        cy.wrap(null).should(() => {
+            expect(onAnswered).to.have.been.calledOnceWith({ blockId: "block1", connectionId: "alice", outcome: "transferred" })
+            expect(getLockOwners(alice)).to.deep.eq(["bob"])
+        })
+    })
+})
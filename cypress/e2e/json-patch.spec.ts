@@ -0,0 +1,58 @@
+import { applyJsonPatch, createJsonPatch, isSafeJsonPatchPath } from "../../src/JsonPatch";
+
+describe("JsonPatch", () => {
+
+    it("Turns one value into the other", () => {
+        const from = { text: "Hello", level: 2, items: ["a", "b"], meta: { author: "alice" } }
+        const to = { text: "Hello world", items: ["a", "b", "c"], meta: { author: "bob" }, withHeadings: true }
+
+        expect(applyJsonPatch(from, createJsonPatch(from, to))).to.deep.eq(to)
+    })
+
+    it("Inserting at the front of an array only adds that item", () => {
+        const from = { content: [["a"], ["b"], ["c"]] }
+        const to = { content: [["new"], ["a"], ["b"], ["c"]] }
+
+        const patch = createJsonPatch(from, to)
+        expect(patch).to.deep.eq([{ op: "add", path: "/content/0", value: ["new"] }])
+        expect(applyJsonPatch(from, patch)).to.deep.eq(to)
+    })
+
+    it("Removing from the middle of an array only removes that item", () => {
+        const from = { items: ["a", "b", "c", "d"] }
+        const to = { items: ["a", "c", "d"] }
+
+        const patch = createJsonPatch(from, to)
+        expect(patch).to.deep.eq([{ op: "remove", path: "/items/1" }])
+        expect(applyJsonPatch(from, patch)).to.deep.eq(to)
+    })
+
+    it("Does not change the original document", () => {
+        const document = { items: ["a"] }
+        applyJsonPatch(document, [{ op: "add", path: "/items/1", value: "b" }])
+        expect(document).to.deep.eq({ items: ["a"] })
+    })
+
+    it("Throws for paths that do not exist", () => {
+        expect(() => applyJsonPatch({ items: [] }, [{ op: "replace", path: "/items/3", value: "a" }])).to.throw()
+        expect(() => applyJsonPatch({}, [{ op: "remove", path: "/toString" }])).to.throw()
+    })
+
+    it("Rejects paths that reach an object prototype", () => {
+        expect(isSafeJsonPatchPath("/__proto__/polluted")).to.eq(false)
+        expect(isSafeJsonPatchPath("/constructor/prototype/polluted")).to.eq(false)
+        expect(isSafeJsonPatchPath("/items/0/text")).to.eq(true)
+
+        expect(() => applyJsonPatch({}, [{ op: "add", path: "/__proto__/polluted", value: true }])).to.throw()
+        expect(({} as Record<string, unknown>).polluted).to.eq(undefined)
+    })
+
+    it("Replaces objects with keys that can not be patched", () => {
+        const from = { data: { constructor: "a" } }
+        const to = { data: { constructor: "b" } }
+
+        const patch = createJsonPatch(from, to)
+        expect(patch.every(operation => isSafeJsonPatchPath(operation.path))).to.eq(true)
+        expect(applyJsonPatch(from, patch)).to.deep.eq(to)
+    })
+})
@@ -0,0 +1,86 @@
+import LockArbiter from "../../src/LockArbiter";
+
+describe("LockArbiter", () => {
+
+    const request = (connectionId: string, requestId: string, leaseDuration?: number) =>
+        ({ type: "block-lock-request", blockId: "a", connectionId, requestId, leaseDuration } as const)
+
+    it("Grants a free block and starts the lease at the grant", () => {
+        const arbiter = new LockArbiter("arbiter", 15_000)
+        const before = Date.now()
+
+        expect(arbiter.handleMessage(request("alice", "1"))).to.deep.eq([
+            { type: "block-lock-grant", blockId: "a", connectionId: "arbiter", targetConnectionId: "alice", requestId: "1" },
+        ])
+        const [lock] = arbiter.lockedBlocks
+        expect(lock.connectionId).to.eq("alice")
+        expect(lock.leaseExpiresAt).to.be.at.least(before + 15_000)
+    })
+
+    it("Denies a block that another user holds", () => {
+        const arbiter = new LockArbiter("arbiter")
+        arbiter.handleMessage(request("alice", "1"))
+
+        expect(arbiter.handleMessage(request("bob", "2"))).to.deep.eq([
+            { type: "block-lock-deny", blockId: "a", connectionId: "arbiter", targetConnectionId: "bob", requestId: "2", lockedBy: "alice" },
+        ])
+    })
+
+    it("Answers with the document of the request", () => {
+        const arbiter = new LockArbiter("arbiter")
+        const [answer] = arbiter.handleMessage({ ...request("alice", "1"), documentId: "doc" })
+        expect(answer.documentId).to.eq("doc")
+    })
+
+    it("Renews only locks the user already holds", () => {
+        const arbiter = new LockArbiter("arbiter", 1_000)
+        arbiter.handleMessage(request("alice", "1"))
+        const leaseExpiresAt = arbiter.lockedBlocks[0].leaseExpiresAt
+
+        arbiter.handleMessage({ type: "block-lock-renew", blockId: "a", connectionId: "alice", leaseDuration: 60_000 })
+        expect(arbiter.lockedBlocks[0].leaseExpiresAt).to.be.greaterThan(leaseExpiresAt)
+
+        arbiter.handleMessage({ type: "block-lock-renew", blockId: "a", connectionId: "bob", leaseDuration: 60_000 })
+        arbiter.handleMessage({ type: "block-lock-renew", blockId: "b", connectionId: "bob", leaseDuration: 60_000 })
+        expect(arbiter.lockedBlocks).to.have.length(1)
+        expect(arbiter.lockedBlocks[0].connectionId).to.eq("alice")
+    })
+
+    it("Releases a lock when its owner unlocks it", () => {
+        const arbiter = new LockArbiter("arbiter")
+        arbiter.handleMessage(request("alice", "1"))
+
+        arbiter.handleMessage({ type: "block-unlocked", blockId: "a", connectionId: "bob" })
+        expect(arbiter.lockedBlocks).to.have.length(1)
+
+        arbiter.handleMessage({ type: "block-unlocked", blockId: "a", connectionId: "alice" })
+        expect(arbiter.lockedBlocks).to.have.length(0)
+        expect(arbiter.handleMessage(request("bob", "2"))[0].type).to.eq("block-lock-grant")
+    })
+
+    it("Transfers taken over locks with a lease, but not pinned ones", () => {
+        const arbiter = new LockArbiter("arbiter", 15_000)
+        arbiter.handleMessage(request("alice", "1"))
+        arbiter.handleMessage({ type: "block-locked", blockId: "b", connectionId: "alice", pinned: true })
+
+        arbiter.handleMessage({ type: "block-lock-takeover", blockId: "a", connectionId: "bob", fromConnectionId: "alice", requestId: "2" })
+        arbiter.handleMessage({ type: "block-lock-takeover", blockId: "b", connectionId: "bob", fromConnectionId: "alice", requestId: "3" })
+
+        const [taken, pinned] = arbiter.lockedBlocks
+        expect(taken.connectionId).to.eq("bob")
+        expect(taken.leaseExpiresAt).to.be.a("number")
+        expect(pinned.connectionId).to.eq("alice")
+    })
+
+    it("Keeps pinned locks until they are cleared", () => {
+        const arbiter = new LockArbiter("arbiter")
+        arbiter.handleMessage({ type: "block-locked", blockId: "a", connectionId: "alice", pinned: true })
+
+        arbiter.releaseAll("alice")
+        arbiter.handleMessage({ type: "user-disconnected", connectionId: "alice" })
+        expect(arbiter.lockedBlocks).to.have.length(1)
+
+        arbiter.handleMessage({ type: "block-lock-clear", blockId: "a", connectionId: "bob", lockedBy: "alice" })
+        expect(arbiter.lockedBlocks).to.have.length(0)
+    })
+})
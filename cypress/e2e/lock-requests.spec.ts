@@ -0,0 +1,96 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import LockArbiter from "../../src/LockArbiter";
+import { createCollabEditor, createRelay, getLockOwners, paragraphBlocks, type CollabEditor, type CollabRelay } from "../support/collab";
+
+describe("Lock requests", () => {
+    let relay: CollabRelay
+    let bob: CollabEditor
+    let carol: CollabEditor
+
+    beforeEach(() => {
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        relay = createRelay()
+    })
+
+    describe("With one of the users as arbiter", () => {
+        let alice: CollabEditor
+
+        beforeEach(() => {
+            const lockArbiter = { connectionId: "alice" }
+            cy.window().then(async win => {
+                alice = await createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, lockArbiter })
+                bob = await createCollabEditor(win, relay, { connectionId: "bob", blocks: paragraphBlocks, lockArbiter })
+                carol = await createCollabEditor(win, relay, { connectionId: "carol", blocks: paragraphBlocks, lockArbiter })
+            })
+        })
+
+        it("Locks the block once the arbiter granted it", () => {
+            cy.then(() => expect(bob.collab.lockBlock("block1")).to.eq(true))
+            cy.wrap(null).should(() => {
+                expect(getLockOwners(alice)).to.deep.eq(["bob"])
+                expect(getLockOwners(carol)).to.deep.eq(["bob"])
+            })
+        })
+
+        it("Grants a block only to the first of two users asking at the same moment", () => {
+            const onDenied = cy.stub()
+            cy.then(() => {
+                carol.collab.on("block-lock-denied", onDenied)
+                bob.collab.lockBlock("block1")
+                carol.collab.lockBlock("block1")
+            })
+            cy.wrap(null).should(() => {
+                expect(getLockOwners(alice)).to.deep.eq(["bob"])
+                expect(onDenied).to.have.been.calledOnceWith({ blockId: "block1", lockedBy: "bob" })
+            })
+        })
+
+        it("Releases the block for everybody when the owner unlocks it", () => {
+            cy.then(() => bob.collab.lockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(carol)).to.deep.eq(["bob"]))
+
+            cy.then(() => bob.collab.unlockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(carol)).to.have.length(0))
+            cy.then(() => carol.collab.lockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(bob)).to.deep.eq(["carol"]))
+        })
+
+        it("Locks blocks right away once the arbiter left", () => {
+            cy.then(() => alice.collab.unlisten())
+            cy.wrap(null).should(() => expect(bob.collab.users.map(u => u.connectionId)).to.deep.eq(["carol"]))
+
+            cy.then(() => bob.collab.lockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(carol)).to.deep.eq(["bob"]))
+        })
+    })
+
+    describe("With a server as arbiter", () => {
+        beforeEach(() => {
+            const arbiter = new LockArbiter("lock-server")
+            const server = relay.connect("lock-server")
+            server.on(message => arbiter.handleMessage(message).forEach(answer => server.send(answer)))
+
+            const lockArbiter = { connectionId: "lock-server" }
+            cy.window().then(async win => {
+                bob = await createCollabEditor(win, relay, { connectionId: "bob", blocks: paragraphBlocks, lockArbiter, textSyncTools: ["paragraph"] })
+                carol = await createCollabEditor(win, relay, { connectionId: "carol", blocks: paragraphBlocks, lockArbiter, textSyncTools: ["paragraph"] })
+            })
+        })
+
+        it("Locks the block once the server granted it", () => {
+            cy.then(() => bob.collab.lockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(carol)).to.deep.eq(["bob"]))
+        })
+
+        it("Does not treat the server as a user", () => {
+            cy.then(() => bob.collab.lockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(carol)).to.deep.eq(["bob"]))
+
+            cy.then(() => {
+                expect(bob.collab.users.map(u => u.connectionId)).to.deep.eq(["carol"])
+                expect(bob.collab.peers.map(p => p.connectionId)).to.deep.eq(["carol"])
+                expect(bob.collab.peers[0].capabilities).to.include("text-sync")
+            })
+        })
+    })
+})
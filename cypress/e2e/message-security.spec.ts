@@ -0,0 +1,73 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import type { EncryptionKey } from "../../src/index";
+import { authenticationOf, createCollabEditor, createRelay, getLockOwners, paragraphBlocks, type CollabEditor, type CollabRelay } from "../support/collab";
+
+describe("Message security", () => {
+    let relay: CollabRelay
+    let alice: CollabEditor
+    let bob: CollabEditor
+
+    beforeEach(() => {
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        relay = createRelay()
+    })
+
+    describe("Encryption", () => {
+        let eve: CollabEditor
+
+        beforeEach(() => {
+            cy.window().then(async win => {
+                const createKey = async (id: string): Promise<EncryptionKey> =>
+                    ({ id, key: await win.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]) as CryptoKey })
+                const key = await createKey("shared")
+                alice = await createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, encryption: { key } })
+                bob = await createCollabEditor(win, relay, { connectionId: "bob", blocks: paragraphBlocks, encryption: { key } })
+                eve = await createCollabEditor(win, relay, { connectionId: "eve", blocks: paragraphBlocks, encryption: { key: await createKey("other") } })
+            })
+        })
+
+        it("Only users with the key read the messages", () => {
+            cy.then(() => alice.collab.lockBlock("block1", { reason: "Secret reason" }))
+            cy.wrap(null).should(() => expect(getLockOwners(bob)).to.deep.eq(["alice"]))
+            cy.wait(200)
+            cy.then(() => {
+                expect(eve.collab.lockedBlocks).to.have.length(0)
+                const aliceMessages = relay.messages.filter(m => m.from === "alice")
+                expect(aliceMessages.every(m => "encrypted" in m.data)).to.eq(true)
+                expect(JSON.stringify(aliceMessages)).not.to.contain("Secret reason")
+            })
+        })
+    })
+
+    describe("Authentication", () => {
+        let onForgedMessage: ReturnType<typeof cy.stub>
+
+        beforeEach(() => {
+            onForgedMessage = cy.stub()
+            cy.window().then(async win => {
+                alice = await createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, authentication: authenticationOf("alice") })
+                bob = await createCollabEditor(win, relay, { connectionId: "bob", blocks: paragraphBlocks, authentication: authenticationOf("bob"), onForgedMessage })
+            })
+            cy.then(() => alice.collab.lockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(bob)).to.deep.eq(["alice"]))
+        })
+
+        it("Ignores unsigned messages in the name of another user", () => {
+            cy.then(() => relay.receive("mallory", { type: "block-unlocked", blockId: "block1", connectionId: "alice" }))
+            cy.wrap(null).should(() => expect(onForgedMessage).to.have.been.calledOnce)
+            cy.then(() => expect(getLockOwners(bob)).to.deep.eq(["alice"]))
+        })
+
+        it("Ignores replayed messages", () => {
+            cy.then(() => alice.collab.unlockBlock("block1"))
+            cy.wrap(null).should(() => expect(getLockOwners(bob)).to.have.length(0))
+
+            cy.then(() => {
+                const lockMessage = relay.messages.find(m => m.from === "alice" && m.data.type === "block-locked")
+                relay.receive("mallory", lockMessage!.data)
+            })
+            cy.wrap(null).should(() => expect(onForgedMessage).to.have.been.calledOnce)
+            cy.then(() => expect(bob.collab.lockedBlocks).to.have.length(0))
+        })
+    })
+})
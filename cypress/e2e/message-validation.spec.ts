@@ -0,0 +1,51 @@
+import { validateMessage } from "../../src/MessageValidation";
+
+describe("MessageValidation", () => {
+
+    const version = { clock: 1, connectionId: "alice" }
+
+    it("Accepts well-formed messages", () => {
+        expect(validateMessage({ type: "block-unlocked", blockId: "a", connectionId: "alice" })).to.eq(null)
+        expect(validateMessage({ type: "block-removed", blockId: "a", version })).to.eq(null)
+        expect(validateMessage({
+            type: "block-changed",
+            blockId: "a",
+            tool: "paragraph",
+            index: 0,
+            patch: [{ op: "replace", path: "/text", value: "Hello" }],
+            baseVersion: version,
+            version: { ...version, clock: 2 },
+        })).to.eq(null)
+    })
+
+    it("Rejects values that are not messages", () => {
+        expect(validateMessage(null)).to.be.a("string")
+        expect(validateMessage("block-removed")).to.be.a("string")
+        expect(validateMessage([])).to.be.a("string")
+    })
+
+    it("Rejects unknown message types", () => {
+        expect(validateMessage({ type: "block-exploded", blockId: "a" })).to.match(/^Unknown message type/)
+        expect(validateMessage({ type: "toString" })).to.match(/^Unknown message type/)
+    })
+
+    it("Rejects missing and mistyped fields", () => {
+        expect(validateMessage({ type: "block-removed", blockId: "a" })).to.contain("version")
+        expect(validateMessage({ type: "block-removed", blockId: 1, version })).to.contain("blockId")
+        expect(validateMessage({ type: "block-moved", fromBlockId: "a", toBlockIndex: -1, toBlockId: "b", version })).to.contain("toBlockIndex")
+        expect(validateMessage({ type: "block-unlocked", blockId: "a", connectionId: "alice", documentId: 1 })).to.contain("documentId")
+    })
+
+    it("Rejects patches that reach an object prototype", () => {
+        const reason = validateMessage({
+            type: "block-changed",
+            blockId: "a",
+            tool: "paragraph",
+            index: 0,
+            patch: [{ op: "add", path: "/__proto__/polluted", value: true }],
+            baseVersion: version,
+            version: { ...version, clock: 2 },
+        })
+        expect(reason).to.contain("path")
+    })
+})
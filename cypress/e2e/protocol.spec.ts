@@ -0,0 +1,50 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import { changeBlockMessage, createCollabEditor, createRelay, getBlockSelector, helloMessage, paragraphBlocks, presenceMessage, type CollabEditor, type CollabRelay } from "../support/collab";
+
+describe("Protocol handshake", () => {
+    let relay: CollabRelay
+    let alice: CollabEditor
+    let bob: CollabEditor
+    let onIncompatiblePeer: ReturnType<typeof cy.stub>
+
+    beforeEach(() => {
+        onIncompatiblePeer = cy.stub()
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        relay = createRelay()
+        cy.window().then(async win => {
+            alice = await createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, onIncompatiblePeer })
+            bob = await createCollabEditor(win, relay, { connectionId: "bob", blocks: paragraphBlocks })
+        })
+    })
+
+    it("Users learn the protocol of each other", () => {
+        cy.wrap(null).should(() => {
+            expect(alice.collab.peers.map(p => p.connectionId)).to.deep.eq(["bob"])
+            expect(bob.collab.peers.map(p => p.connectionId)).to.deep.eq(["alice"])
+            expect(alice.collab.peers[0].isCompatible).to.eq(true)
+            expect(alice.collab.peers[0].capabilities).to.deep.eq(bob.collab.peers[0].capabilities)
+        })
+        cy.then(() => expect(onIncompatiblePeer).not.to.have.been.called)
+    })
+
+    it("Reports users with an incompatible protocol and ignores their changes", () => {
+        cy.then(() => {
+            relay.receive("dave", helloMessage("dave", 1, 1))
+            relay.receive("dave", changeBlockMessage("dave", "Changed by an incompatible user", 1))
+        })
+        cy.wrap(null).should(() => expect(onIncompatiblePeer).to.have.been.calledOnce)
+        cy.then(() => expect(alice.collab.incompatiblePeers.map(p => p.connectionId)).to.deep.eq(["dave"]))
+        cy.get(getBlockSelector("alice")).should("have.text", "Original")
+    })
+
+    it("Reports users older than the handshake", () => {
+        cy.then(() => relay.receive("dave", presenceMessage("dave", "editor")))
+        cy.wrap(null).should(() => expect(onIncompatiblePeer).to.have.been.calledOnce)
+        cy.then(() => {
+            const [peer] = alice.collab.incompatiblePeers
+            expect(peer.connectionId).to.eq("dave")
+            expect(peer.protocolVersion).to.eq(0)
+            expect(alice.collab.users.map(u => u.connectionId)).to.deep.eq(["bob"])
+        })
+    })
+})
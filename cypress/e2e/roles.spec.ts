@@ -0,0 +1,85 @@
+import { TEMP_ENVIRONMENT_URL } from "../support/constants";
+import { signMessage } from "../../src/MessageAuthentication";
+import { authenticationOf, changeBlockMessage, createCollabEditor, createRelay, getBlockSelector, helloMessage, paragraphBlocks, presenceMessage, type CollabEditor, type CollabRelay } from "../support/collab";
+
+describe("Roles", () => {
+    let relay: CollabRelay
+    let alice: CollabEditor
+
+    beforeEach(() => {
+        cy.visit(TEMP_ENVIRONMENT_URL)
+        relay = createRelay()
+    })
+
+    describe("Without authentication", () => {
+        beforeEach(() => {
+            cy.window()
+                .then(win => createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, externalUserIdleTimeout: 500 }))
+                .then(editor => { alice = editor })
+        })
+
+        it("Applies changes of users that did not announce themselves yet", () => {
+            cy.then(() => {
+                relay.receive("bob", helloMessage("bob"))
+                relay.receive("bob", changeBlockMessage("bob", "Changed by Bob", 1))
+            })
+            cy.get(getBlockSelector("alice")).should("have.text", "Changed by Bob")
+        })
+
+        it("Ignores changes of viewers", () => {
+            cy.then(() => {
+                relay.receive("bob", helloMessage("bob"))
+                relay.receive("bob", presenceMessage("bob", "viewer"))
+                relay.receive("bob", changeBlockMessage("bob", "Changed by Bob", 1))
+            })
+            cy.wait(200)
+            cy.get(getBlockSelector("alice")).should("have.text", "Original")
+        })
+
+        it("Viewers removed after inactivity stay viewers", () => {
+            cy.then(() => {
+                relay.receive("bob", helloMessage("bob"))
+                relay.receive("bob", presenceMessage("bob", "viewer"))
+            })
+            cy.wrap(null).should(() => expect(alice.collab.users.map(u => u.connectionId)).to.deep.eq(["bob"]))
+            cy.wrap(null, { timeout: 3_000 }).should(() => expect(alice.collab.users).to.have.length(0))
+
+            cy.then(() => {
+                relay.receive("bob", helloMessage("bob"))
+                relay.receive("bob", changeBlockMessage("bob", "Changed by Bob", 1))
+            })
+            cy.wait(200)
+            cy.get(getBlockSelector("alice")).should("have.text", "Original")
+        })
+    })
+
+    describe("With authentication", () => {
+        beforeEach(() => {
+            cy.window()
+                .then(win => createCollabEditor(win, relay, { connectionId: "alice", blocks: paragraphBlocks, authentication: authenticationOf("alice") }))
+                .then(editor => { alice = editor })
+        })
+
+        const receiveSignedFromBob = (message: Parameters<typeof signMessage>[0]) =>
+            cy.then(() => signMessage(message, "bob", authenticationOf("bob"))).then(signed => relay.receive("bob", signed))
+
+        it("Ignores changes of verified users until they announce themselves as editors", () => {
+            receiveSignedFromBob(helloMessage("bob"))
+            receiveSignedFromBob(changeBlockMessage("bob", "Changed before announcing", 1))
+            cy.wait(200)
+            cy.get(getBlockSelector("alice")).should("have.text", "Original")
+
+            receiveSignedFromBob(presenceMessage("bob", "editor"))
+            receiveSignedFromBob(changeBlockMessage("bob", "Changed by Bob", 2))
+            cy.get(getBlockSelector("alice")).should("have.text", "Changed by Bob")
+        })
+
+        it("Ignores changes in the name of another user", () => {
+            receiveSignedFromBob(helloMessage("bob"))
+            receiveSignedFromBob(presenceMessage("bob", "editor"))
+            receiveSignedFromBob(changeBlockMessage("carol", "Changed in the name of Carol", 1))
+            cy.wait(200)
+            cy.get(getBlockSelector("alice")).should("have.text", "Original")
+        })
+    })
+})
@@ -0,0 +1,55 @@
+import TextCrdt from "../../src/TextCrdt";
+
+describe("TextCrdt", () => {
+
+    it("Concurrent inserts at the same position end up in the same order for every user", () => {
+        const alice = new TextCrdt("alice", "ac")
+        const bob = new TextCrdt("bob", "ac")
+
+        const aliceOperations = alice.applyLocalText("abc")
+        const bobOperations = bob.applyLocalText("axc")
+        alice.applyRemoteOperations(bobOperations)
+        bob.applyRemoteOperations(aliceOperations)
+
+        expect(alice.toString()).to.eq(bob.toString())
+        expect(alice.toString()).to.have.length(4)
+    })
+
+    it("Applies an insert once the character it was typed after arrives", () => {
+        const alice = new TextCrdt("alice")
+        const bob = new TextCrdt("bob")
+
+        const first = alice.applyLocalText("a")
+        const second = alice.applyLocalText("ab")
+
+        expect(bob.applyRemoteOperations(second)).to.eq(false)
+        expect(bob.hasPendingOperations).to.eq(true)
+        expect(bob.toString()).to.eq("")
+
+        expect(bob.applyRemoteOperations(first)).to.eq(true)
+        expect(bob.hasPendingOperations).to.eq(false)
+        expect(bob.toString()).to.eq("ab")
+    })
+
+    it("Hides a character whose delete arrived before its insert", () => {
+        const alice = new TextCrdt("alice")
+        const bob = new TextCrdt("bob")
+
+        const insert = alice.applyLocalText("ab")
+        const remove = alice.applyLocalText("a")
+
+        bob.applyRemoteOperations(remove)
+        bob.applyRemoteOperations(insert)
+        expect(bob.toString()).to.eq("a")
+    })
+
+    it("Skips operations that were already applied", () => {
+        const alice = new TextCrdt("alice", "hello")
+        const bob = new TextCrdt("bob", "hello")
+
+        const operations = alice.applyLocalText("hello world")
+        bob.applyRemoteOperations(operations)
+        bob.applyRemoteOperations(operations)
+        expect(bob.toString()).to.eq("hello world")
+    })
+})
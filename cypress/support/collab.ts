@@ -0,0 +1,98 @@
+import type EditorJS from "@editorjs/editorjs";
+import type { OutputBlockData } from "@editorjs/editorjs";
+import type GroupCollab from "../../src/index";
+import type { GroupCollabConfigOptions, MessageAuthentication, MessageData } from "../../src/index";
+
+type SocketMessage = Parameters<GroupCollabConfigOptions["socket"]["send"]>[0]
+
+/**
+ * Passes messages between the plugins of one test like a server would: to everybody but the sender, one at a time and as JSON
+ */
+export type CollabRelay = {
+    // everything sent through the relay, in the order it was sent
+    messages: { from: string; data: SocketMessage }[]
+    connect(connectionId: string): GroupCollabConfigOptions["socket"]
+    // a user that only exists in the test, e.g. an older client or a server
+    receive(from: string, data: SocketMessage): void
+}
+
+export type CollabEditor = {
+    editor: EditorJS
+    collab: GroupCollab
+}
+
+export const createRelay = (): CollabRelay => {
+    const listeners = new Map<string, (data: MessageData) => void>()
+    const relay: CollabRelay = {
+        messages: [],
+        connect: connectionId => ({
+            send: data => relay.receive(connectionId, data),
+            on: callback => { listeners.set(connectionId, callback) },
+            off: () => { listeners.delete(connectionId) },
+            connectionId,
+        }),
+        receive: (from, data) => {
+            relay.messages.push({ from, data })
+            const json = JSON.stringify(data)
+            listeners.forEach((callback, connectionId) => {
+                if (connectionId !== from) setTimeout(() => callback(JSON.parse(json)))
+            })
+        },
+    }
+    return relay
+}
+
+/**
+ * Create an editor in its own holder and let its plugin listen on the relay
+ */
+export const createCollabEditor = async (
+    win: Cypress.AUTWindow,
+    relay: CollabRelay,
+    { connectionId, blocks = [], ...config }: { connectionId: string; blocks?: OutputBlockData[] } & Omit<GroupCollabConfigOptions, "editor" | "socket">,
+): Promise<CollabEditor> => {
+    const holder = win.document.createElement("div")
+    holder.id = `collab-${connectionId}`
+    win.document.body.append(holder)
+
+    const editor = new win.EditorJS({ holder, data: { blocks } })
+    await editor.isReady
+    const collab = new win.RealtimeCollabPlugin({ editor, socket: relay.connect(connectionId), ...config })
+    collab.listen()
+    return { editor, collab }
+}
+
+export const getBlockSelector = (connectionId: string) => `#collab-${connectionId} .ce-block`
+
+export const changeBlockMessage = (connectionId: string, text: string, clock: number): MessageData => ({
+    type: "block-changed",
+    index: 0,
+    block: { id: "block1", tool: "paragraph", data: { text }, time: Date.now() },
+    version: { clock, connectionId },
+})
+
+// users that do not say hello first are older than the handshake and ignored
+export const helloMessage = (connectionId: string, protocolVersion = 4, minProtocolVersion = 2): MessageData => ({
+    type: "protocol-hello",
+    connectionId,
+    protocolVersion,
+    minProtocolVersion,
+    capabilities: ["document-sync", "block-versions"],
+})
+
+export const presenceMessage = (connectionId: string, role: "viewer" | "commenter" | "editor"): MessageData => ({
+    type: "user-presence-announce",
+    connectionId,
+    user: { name: connectionId },
+    role,
+    isIdle: false,
+})
+
+export const paragraphBlocks: OutputBlockData[] = [{ id: "block1", type: "paragraph", data: { text: "Original" } }]
+
+export const getLockOwners = ({ collab }: CollabEditor) => collab.lockedBlocks.map(b => b.connectionId)
+
+// signatures only the named user can create, good enough to tell signed from forged messages
+export const authenticationOf = (connectionId: string): MessageAuthentication => ({
+    sign: payload => `${connectionId}:${payload.length}`,
+    verify: (payload, signature, signerId) => signature === `${signerId}:${payload.length}`,
+})
@@ -9,6 +9,7 @@
 // https://on.cypress.io/custom-commands
 // ***********************************************
 import EditorJS from '@editorjs/editorjs'
+import type RealtimeCollabPlugin from '../../src/index'
 import { EDITOR_CLASSES } from './constants';
 
 
@@ -65,6 +66,8 @@ declare global {
     }
     interface Window {
         editors: Record<"holder1" | "holder2", EditorJS>
+        EditorJS: typeof EditorJS
+        RealtimeCollabPlugin: typeof RealtimeCollabPlugin
     }
 }
 
@@ -0,0 +1,150 @@
+/**
+ * Subset of RFC 6902 operations, enough to describe the difference between two JSON values
+ */
+export type JsonPatchOperation = { op: 'add' | 'replace'; path: string; value: unknown } | { op: 'remove'; path: string }
+
+// segments that reach the prototype of an object instead of its data
+const unsafePathSegments = ['__proto__', 'constructor', 'prototype']
+
+// With stringify, the order of the keys might differ, so we need a deep comparison
+export function deepEqual(obj1: any, obj2: any): boolean {
+    if (typeof obj1 !== typeof obj2) return false
+    if (typeof obj1 !== 'object' || obj1 === null || obj2 === null) {
+        return obj1 === obj2
+    }
+    if (Array.isArray(obj1) !== Array.isArray(obj2)) return false
+    const keys1 = Object.keys(obj1)
+    const keys2 = Object.keys(obj2)
+    if (keys1.length !== keys2.length) return false
+    for (const key of keys1) {
+        if (!keys2.includes(key)) return false
+        if (!deepEqual(obj1[key], obj2[key])) return false
+    }
+    return true
+}
+
+/**
+ * Create the operations that turn `from` into `to`. Objects and arrays are compared recursively, everything else is replaced.
+ */
+export function createJsonPatch(from: unknown, to: unknown, path = ''): JsonPatchOperation[] {
+    if (deepEqual(from, to)) return []
+
+    if (Array.isArray(from) && Array.isArray(to)) {
+        // skip the unchanged items at both ends, so inserting an item at the front does not replace every following item
+        let prefixLength = 0
+        const maxPrefixLength = Math.min(from.length, to.length)
+        while (prefixLength < maxPrefixLength && deepEqual(from[prefixLength], to[prefixLength])) prefixLength++
+
+        let suffixLength = 0
+        const maxSuffixLength = maxPrefixLength - prefixLength
+        while (suffixLength < maxSuffixLength && deepEqual(from[from.length - 1 - suffixLength], to[to.length - 1 - suffixLength])) suffixLength++
+
+        const operations: JsonPatchOperation[] = []
+        const fromEnd = from.length - suffixLength
+        const toEnd = to.length - suffixLength
+        // the same number of items changed, e.g. a table cell was edited
+        if (fromEnd === toEnd) {
+            for (let i = prefixLength; i < fromEnd; i++) {
+                operations.push(...createJsonPatch(from[i], to[i], `${path}/${i}`))
+            }
+            return operations
+        }
+
+        // remove from the end so the indexes of the remaining items do not shift
+        for (let i = fromEnd - 1; i >= prefixLength; i--) {
+            operations.push({ op: 'remove', path: `${path}/${i}` })
+        }
+        for (let i = prefixLength; i < toEnd; i++) {
+            operations.push({ op: 'add', path: `${path}/${i}`, value: to[i] })
+        }
+        return operations
+    }
+
+    // keys like `constructor` can not be patched, the receiver rejects their paths
+    const hasUnsafeKeys = (value: Record<string, unknown>) => Object.keys(value).some(key => unsafePathSegments.includes(key))
+    if (isPlainObject(from) && isPlainObject(to) && !hasUnsafeKeys(from) && !hasUnsafeKeys(to)) {
+        const operations: JsonPatchOperation[] = []
+        for (const key of Object.keys(from)) {
+            if (!hasOwnKey(to, key)) operations.push({ op: 'remove', path: `${path}/${escapePathSegment(key)}` })
+        }
+        for (const key of Object.keys(to)) {
+            const childPath = `${path}/${escapePathSegment(key)}`
+            if (!hasOwnKey(from, key)) operations.push({ op: 'add', path: childPath, value: to[key] })
+            else operations.push(...createJsonPatch(from[key], to[key], childPath))
+        }
+        return operations
+    }
+
+    return [{ op: 'replace', path, value: to }]
+}
+
+/**
+ * @returns false if the path is not a JSON pointer or reaches the prototype of an object, e.g. `/__proto__/polluted`
+ */
+export function isSafeJsonPatchPath(path: string): boolean {
+    if (path === '') return true
+    if (!path.startsWith('/')) return false
+    return getPathSegments(path).every(segment => !unsafePathSegments.includes(segment))
+}
+
+/**
+ * Apply the operations on a copy of `document`.
+ * @throws if a path does not exist in the document, meaning the patch was created against different data, or if it is not safe
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+    let result: any = structuredClone(document)
+    for (const operation of operations) {
+        if (operation.path === '') {
+            if (operation.op === 'remove') throw new Error('Cannot remove the document root')
+            result = structuredClone(operation.value)
+            continue
+        }
+
+        if (!isSafeJsonPatchPath(operation.path)) throw new Error(`Path "${operation.path}" is not allowed`)
+
+        const segments = getPathSegments(operation.path)
+        const key = segments.pop()!
+        let parent = result
+        for (const segment of segments) {
+            if (typeof parent !== 'object' || parent === null || !hasOwnKey(parent, segment)) throw new Error(`Path "${operation.path}" does not exist`)
+            parent = parent[segment]
+        }
+        if (typeof parent !== 'object' || parent === null) throw new Error(`Path "${operation.path}" does not exist`)
+
+        if (Array.isArray(parent)) {
+            const index = Number(key)
+            const maxIndex = operation.op === 'add' ? parent.length : parent.length - 1
+            if (!Number.isInteger(index) || index < 0 || index > maxIndex) throw new Error(`Path "${operation.path}" does not exist`)
+
+            if (operation.op === 'add') parent.splice(index, 0, structuredClone(operation.value))
+            else if (operation.op === 'replace') parent[index] = structuredClone(operation.value)
+            else parent.splice(index, 1)
+            continue
+        }
+
+        if (operation.op !== 'add' && !hasOwnKey(parent, key)) throw new Error(`Path "${operation.path}" does not exist`)
+        if (operation.op === 'remove') delete parent[key]
+        else parent[key] = structuredClone(operation.value)
+    }
+    return result
+}
+
+function hasOwnKey(value: object, key: string) {
+    return Object.prototype.hasOwnProperty.call(value, key)
+}
+
+function getPathSegments(path: string) {
+    return path.split('/').slice(1).map(unescapePathSegment)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function escapePathSegment(segment: string) {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function unescapePathSegment(segment: string) {
+    return segment.replace(/~1/g, '/').replace(/~0/g, '~')
+}
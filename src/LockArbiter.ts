@@ -0,0 +1,110 @@
+import { type LockedBlock, type MessageData } from './index'
+
+/**
+ * Decides who gets a block lock when `lockArbiter` is configured. Requests are answered in the order they arrive,
+ * so two users asking for the same block at the same moment can not both get it.
+ * The plugin runs it when the local user is the arbiter, a server can run it to answer lock requests itself.
+ */
+export default class LockArbiter {
+    // block id -> owner, leases are measured on the clock of the arbiter
+    private locks = new Map<string, { connectionId: string; pinned?: boolean; leaseExpiresAt?: number }>()
+    private connectionId: string
+    private leaseDuration: number
+
+    /**
+     * @param connectionId sent with every answer, has to match `lockArbiter.connectionId` of the users
+     * @param leaseDuration lease of a granted lock until the user renews it, for requests that do not carry their own. Value is in ms
+     */
+    public constructor(connectionId: string, leaseDuration = 15_000) {
+        this.connectionId = connectionId
+        this.leaseDuration = leaseDuration
+    }
+
+    public get lockedBlocks(): LockedBlock[] {
+        this.releaseExpiredLeases()
+        return Array.from(this.locks, ([blockId, lock]) => ({ blockId, ...lock }))
+    }
+
+    /**
+     * Pass every message sent between the users.
+     * @returns the answers that have to be sent back, empty for messages that do not need an answer
+     */
+    public handleMessage(message: MessageData): MessageData[] {
+        // answers belong to the document of the request, use one arbiter per document
+        const { documentId } = message
+        return this.answerMessage(message).map(answer => (documentId === undefined ? answer : { ...answer, documentId }))
+    }
+
+    /**
+     * Release every lock of a user, e.g. when your server notices the user is gone without a `user-disconnected` message.
+     * Pinned locks are kept, like the users keep them, until a `block-lock-clear` message releases them.
+     */
+    public releaseAll(connectionId: string) {
+        for (const [blockId, lock] of this.locks) {
+            if (lock.connectionId === connectionId && !lock.pinned) this.locks.delete(blockId)
+        }
+    }
+
+    private answerMessage(message: MessageData): MessageData[] {
+        this.releaseExpiredLeases()
+        switch (message.type) {
+            case 'block-lock-request': {
+                const { blockId, connectionId, requestId } = message
+                const owner = this.locks.get(blockId)?.connectionId
+                if (owner && owner !== connectionId)
+                    return [{ type: 'block-lock-deny', blockId, connectionId: this.connectionId, targetConnectionId: connectionId, requestId, lockedBy: owner }]
+
+                // the lease starts now, a user that never locks the block after the grant does not keep it
+                this.locks.set(blockId, this.startLease(connectionId, message.leaseDuration ?? this.leaseDuration))
+                return [{ type: 'block-lock-grant', blockId, connectionId: this.connectionId, targetConnectionId: connectionId, requestId }]
+            }
+            // users without an arbiter lock blocks right away
+            case 'block-locked': {
+                const owner = this.locks.get(message.blockId)?.connectionId
+                if (owner && owner !== message.connectionId) return []
+                const lock = this.startLease(message.connectionId, message.leaseDuration)
+                this.locks.set(message.blockId, message.pinned ? { ...lock, pinned: true } : lock)
+                return []
+            }
+            // only extends an existing lock, a late renewal must not bring back a released one
+            case 'block-lock-renew': {
+                const lock = this.locks.get(message.blockId)
+                if (lock?.connectionId === message.connectionId) this.locks.set(message.blockId, { ...lock, ...this.startLease(message.connectionId, message.leaseDuration) })
+                return []
+            }
+            // the owner did not answer an edit request in time, pinned locks are never transferred without an answer
+            case 'block-lock-takeover': {
+                const lock = this.locks.get(message.blockId)
+                if (lock?.connectionId === message.fromConnectionId && !lock.pinned) this.locks.set(message.blockId, this.startLease(message.connectionId, this.leaseDuration))
+                return []
+            }
+            case 'block-unlocked': {
+                if (this.locks.get(message.blockId)?.connectionId === message.connectionId) this.locks.delete(message.blockId)
+                return []
+            }
+            // users check the role of the sender, a server has to check it before passing the message
+            case 'block-lock-clear': {
+                if (this.locks.get(message.blockId)?.connectionId === message.lockedBy) this.locks.delete(message.blockId)
+                return []
+            }
+            case 'user-disconnected': {
+                this.releaseAll(message.connectionId)
+                return []
+            }
+            default:
+                return []
+        }
+    }
+
+    private startLease(connectionId: string, leaseDuration?: number) {
+        return leaseDuration ? { connectionId, leaseExpiresAt: Date.now() + leaseDuration } : { connectionId }
+    }
+
+    // a user that stopped renewing its lease does not block the others until it disconnects
+    private releaseExpiredLeases() {
+        const now = Date.now()
+        for (const [blockId, lock] of this.locks) {
+            if (lock.leaseExpiresAt !== undefined && lock.leaseExpiresAt <= now) this.locks.delete(blockId)
+        }
+    }
+}
@@ -0,0 +1,163 @@
+import { type MessageData } from './index'
+
+export type MessageAuthentication = {
+    /**
+     * Sign the payload of an outgoing message, e.g. with the private key of the local user or an HMAC token issued by your server.
+     */
+    sign(payload: string): string | Promise<string>
+    /**
+     * Check that `signature` was created for `payload` by the owner of `connectionId`.
+     */
+    verify(payload: string, signature: string, connectionId: string): boolean | Promise<boolean>
+    /**
+     * Messages signed longer ago, or further in the future to allow for clock drift, are rejected. Value is in ms
+     * @default 120_000
+     */
+    maxMessageAge?: number
+}
+
+const defaultMaxMessageAge = 120_000
+
+/**
+ * What is sent through the socket when authentication is enabled (before encryption, if that is enabled as well).
+ */
+export type SignedMessage = MessageData & {
+    signature: {
+        // the user that signed the message
+        connectionId: string
+        // when the message was signed, in ms since the epoch
+        issuedAt: number
+        // random, a message with an already received nonce is a replay
+        nonce: string
+        value: string
+    }
+}
+
+type SignatureFields = Omit<SignedMessage['signature'], 'value'>
+
+/**
+ * Remembers the nonces of recently accepted messages, so a recorded message can not be sent again.
+ * Nonces are forgotten once their messages would be rejected as too old anyway.
+ */
+export class ReplayGuard {
+    // in the order the messages were received
+    private receivedAt = new Map<string, number>()
+    private maxMessageAge: number
+
+    public constructor(maxMessageAge = defaultMaxMessageAge) {
+        this.maxMessageAge = maxMessageAge
+    }
+
+    /**
+     * @throws with the reason if the message is too old, too far in the future or was already received
+     */
+    public check({ connectionId, issuedAt, nonce }: SignatureFields) {
+        const now = Date.now()
+        this.forgetExpiredNonces(now)
+        if (Math.abs(now - issuedAt) > this.maxMessageAge)
+            throw new Error(`Message of connectionId "${connectionId}" was signed ${Math.round((now - issuedAt) / 1000)}s ago`)
+        if (this.receivedAt.has(this.getKey(connectionId, nonce))) throw new Error(`Message of connectionId "${connectionId}" was already received`)
+    }
+
+    public remember({ connectionId, nonce }: SignatureFields) {
+        this.receivedAt.set(this.getKey(connectionId, nonce), Date.now())
+    }
+
+    // a message can be signed up to maxMessageAge in the future and is accepted until maxMessageAge after that
+    private forgetExpiredNonces(now: number) {
+        for (const [key, receivedAt] of this.receivedAt) {
+            if (receivedAt + 2 * this.maxMessageAge >= now) break
+            this.receivedAt.delete(key)
+        }
+    }
+
+    private getKey(connectionId: string, nonce: string) {
+        return `${connectionId}:${nonce}`
+    }
+}
+
+export async function signMessage(message: MessageData, connectionId: string, authentication: MessageAuthentication): Promise<SignedMessage> {
+    const signature: SignatureFields = { connectionId, issuedAt: Date.now(), nonce: createNonce() }
+    const value = await authentication.sign(canonicalStringify({ ...message, signature }))
+    return { ...message, signature: { ...signature, value } }
+}
+
+/**
+ * @returns the message without its signature, which still has to be validated, and the user that signed it
+ * @throws with the reason if the message is not signed by the user whose `connectionId` it carries, or if it is a replay
+ */
+export async function verifyMessage(
+    data: unknown,
+    authentication: MessageAuthentication,
+    replayGuard: ReplayGuard,
+): Promise<{ message: unknown; connectionId: string }> {
+    if (typeof data !== 'object' || data === null) throw new Error('Message is not signed')
+    const { signature, ...message } = data as Partial<SignedMessage>
+    if (
+        typeof signature !== 'object' ||
+        signature === null ||
+        typeof signature.connectionId !== 'string' ||
+        typeof signature.value !== 'string' ||
+        typeof signature.issuedAt !== 'number' ||
+        typeof signature.nonce !== 'string'
+    )
+        throw new Error('Message is not signed')
+
+    // otherwise any user could release the locks or remove the cursors of another user
+    for (const claimedConnectionId of getClaimedAuthors(message)) {
+        if (claimedConnectionId !== signature.connectionId)
+            throw new Error(`Message for connectionId "${claimedConnectionId}" was signed by "${signature.connectionId}"`)
+    }
+
+    const { value, ...signatureFields } = signature
+    replayGuard.check(signatureFields)
+
+    let isValid = false
+    try {
+        isValid = await authentication.verify(canonicalStringify({ ...message, signature: signatureFields }), value, signature.connectionId)
+    } catch (e) {
+        isValid = false
+    }
+    if (!isValid) throw new Error(`Invalid signature for connectionId "${signature.connectionId}"`)
+
+    replayGuard.remember(signatureFields)
+    return { message, connectionId: signature.connectionId }
+}
+
+/**
+ * Every user a message claims to be from: the sender, the author of a block version and the author of inserted text
+ */
+function getClaimedAuthors(message: Record<string, unknown>): unknown[] {
+    const authors: unknown[] = []
+    if (message.connectionId !== undefined) authors.push(message.connectionId)
+
+    const version = message.version as { connectionId?: unknown } | undefined
+    if (typeof version === 'object' && version !== null) authors.push(version.connectionId)
+
+    if (Array.isArray(message.operations)) {
+        for (const operation of message.operations as { action?: unknown; id?: { connectionId?: unknown } }[]) {
+            if (operation?.action === 'insert') authors.push(operation.id?.connectionId)
+        }
+    }
+    return authors
+}
+
+function createNonce() {
+    const bytes = crypto.getRandomValues(new Uint8Array(16))
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * JSON with sorted object keys, so a relay that reorders keys does not break signatures
+ */
+export function canonicalStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(item => canonicalStringify(item ?? null)).join(',')}]`
+    if (typeof value === 'object' && value !== null) {
+        const entries = Object.keys(value)
+            .sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalStringify((value as Record<string, unknown>)[key])}`)
+        return `{${entries.join(',')}}`
+    }
+    return JSON.stringify(value)
+}
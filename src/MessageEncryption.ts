@@ -0,0 +1,106 @@
+import { type MessageData } from './index'
+
+export type EncryptionKey = {
+    // sent with every message, so receivers know which key to decrypt with
+    id: string
+    // AES-GCM key, e.g. from `crypto.subtle.importKey('raw', secret, 'AES-GCM', false, ['encrypt', 'decrypt'])`
+    key: CryptoKey
+}
+
+/**
+ * What is sent through the socket when encryption is enabled. Only the fields needed to route the message stay readable.
+ */
+export type EncryptedMessage = {
+    type: MessageData['type']
+    connectionId?: string
+    targetConnectionId?: string
+    documentId?: string
+    encrypted: {
+        keyId: string
+        // base64
+        iv: string
+        // base64
+        data: string
+    }
+}
+
+type RoutingFields = Omit<EncryptedMessage, 'encrypted'>
+
+const ivLength = 12
+
+export async function encryptMessage(message: MessageData, { id, key }: EncryptionKey): Promise<EncryptedMessage> {
+    const routingFields = getRoutingFields(message)
+    const iv = crypto.getRandomValues(new Uint8Array(ivLength))
+    const data = await crypto.subtle.encrypt(
+        // the routing fields are authenticated as well, so a relay can not send the message to other users or under another type
+        { name: 'AES-GCM', iv, additionalData: encodeText(JSON.stringify(routingFields)) },
+        key,
+        encodeText(JSON.stringify(message)),
+    )
+
+    return { ...routingFields, encrypted: { keyId: id, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) } }
+}
+
+/**
+ * @returns the decrypted message, which still has to be validated
+ * @throws with the reason if the data is not an encrypted message or can not be decrypted with the given keys
+ */
+export async function decryptMessage(data: unknown, keys: EncryptionKey[]): Promise<unknown> {
+    if (!isEncryptedMessage(data)) throw new Error('Message is not encrypted')
+
+    const { encrypted, ...routingFields } = data
+    const key = keys.find(k => k.id === encrypted.keyId)
+    if (!key) throw new Error(`Unknown encryption key "${encrypted.keyId}"`)
+
+    let decryptedData: ArrayBuffer
+    try {
+        decryptedData = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(encrypted.iv), additionalData: encodeText(JSON.stringify(getRoutingFields(routingFields))) },
+            key.key,
+            fromBase64(encrypted.data),
+        )
+    } catch (e) {
+        throw new Error('Message could not be decrypted, it was changed or encrypted with another key')
+    }
+
+    return JSON.parse(new TextDecoder().decode(decryptedData))
+}
+
+function isEncryptedMessage(data: unknown): data is EncryptedMessage {
+    if (typeof data !== 'object' || data === null) return false
+    const { type, encrypted } = data as Partial<EncryptedMessage>
+    return (
+        typeof type === 'string' &&
+        typeof encrypted === 'object' &&
+        encrypted !== null &&
+        typeof encrypted.keyId === 'string' &&
+        typeof encrypted.iv === 'string' &&
+        typeof encrypted.data === 'string'
+    )
+}
+
+// always the same key order, the fields are part of the authenticated data
+function getRoutingFields(message: RoutingFields | MessageData): RoutingFields {
+    const routingFields: RoutingFields = { type: message.type }
+    if ('connectionId' in message && typeof message.connectionId === 'string') routingFields.connectionId = message.connectionId
+    if ('targetConnectionId' in message && typeof message.targetConnectionId === 'string') routingFields.targetConnectionId = message.targetConnectionId
+    if (typeof message.documentId === 'string') routingFields.documentId = message.documentId
+    return routingFields
+}
+
+function encodeText(text: string) {
+    return new TextEncoder().encode(text)
+}
+
+function toBase64(bytes: Uint8Array) {
+    let binary = ''
+    for (const byte of bytes) binary += String.fromCharCode(byte)
+    return btoa(binary)
+}
+
+function fromBase64(base64: string) {
+    const binary = atob(base64)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+}
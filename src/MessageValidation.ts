@@ -0,0 +1,189 @@
+import { type MessageData } from './index'
+import { isSafeJsonPatchPath } from './JsonPatch'
+
+/**
+ * Returns the reason why the value is invalid, or null if it is valid
+ */
+type Validator = (value: unknown, path: string) => string | null
+
+const isString: Validator = (value, path) => (typeof value === 'string' ? null : `${path} must be a string`)
+const isBoolean: Validator = (value, path) => (typeof value === 'boolean' ? null : `${path} must be a boolean`)
+const isNumber: Validator = (value, path) => (typeof value === 'number' && Number.isFinite(value) ? null : `${path} must be a finite number`)
+const isIndex: Validator = (value, path) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 ? null : `${path} must be a positive integer`
+const isJsonPatchPath: Validator = (value, path) =>
+    typeof value === 'string' && isSafeJsonPatchPath(value) ? null : `${path} must be a JSON pointer that does not reach an object prototype`
+const isObject: Validator = (value, path) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) ? null : `${path} must be an object`
+
+const optional =
+    (validator: Validator): Validator =>
+    (value, path) =>
+        value === undefined ? null : validator(value, path)
+
+const nullable =
+    (validator: Validator): Validator =>
+    (value, path) =>
+        value === null ? null : validator(value, path)
+
+const oneOfValues =
+    (...values: unknown[]): Validator =>
+    (value, path) =>
+        values.includes(value) ? null : `${path} must be one of ${values.map(v => JSON.stringify(v)).join(', ')}`
+
+const arrayOf =
+    (validator: Validator): Validator =>
+    (value, path) => {
+        if (!Array.isArray(value)) return `${path} must be an array`
+        for (let i = 0; i < value.length; i++) {
+            const reason = validator(value[i], `${path}[${i}]`)
+            if (reason) return reason
+        }
+        return null
+    }
+
+const recordOf =
+    (validator: Validator): Validator =>
+    (value, path) => {
+        const reason = isObject(value, path)
+        if (reason) return reason
+        for (const [key, item] of Object.entries(value as object)) {
+            const itemReason = validator(item, `${path}.${key}`)
+            if (itemReason) return itemReason
+        }
+        return null
+    }
+
+const objectOf =
+    (shape: Record<string, Validator>): Validator =>
+    (value, path) => {
+        const reason = isObject(value, path)
+        if (reason) return reason
+        for (const [key, validator] of Object.entries(shape)) {
+            const fieldReason = validator((value as Record<string, unknown>)[key], `${path}.${key}`)
+            if (fieldReason) return fieldReason
+        }
+        return null
+    }
+
+const anyOf =
+    (...validators: Validator[]): Validator =>
+    (value, path) => {
+        const reasons: string[] = []
+        for (const validator of validators) {
+            const reason = validator(value, path)
+            if (!reason) return null
+            reasons.push(reason)
+        }
+        return reasons.join(' or ')
+    }
+
+const blockVersion = objectOf({ clock: isNumber, connectionId: isString })
+const savedData = objectOf({ id: isString, tool: isString, data: isObject, time: optional(isNumber) })
+const textPosition = objectOf({ blockId: isString, inputIndex: isIndex, offset: isIndex })
+const lockedBlock = objectOf({
+    blockId: isString,
+    connectionId: isString,
+    reason: optional(isString),
+    pinned: optional(isBoolean),
+    expiresAt: optional(isNumber),
+    leaseDuration: optional(isNumber),
+    leaseExpiresAt: optional(isNumber),
+})
+const outputData = objectOf({
+    time: optional(isNumber),
+    version: optional(isString),
+    blocks: arrayOf(objectOf({ id: optional(isString), type: isString, data: isObject })),
+})
+const textOperation = anyOf(
+    objectOf({ action: oneOfValues('insert'), id: blockVersion, originId: nullable(blockVersion), text: isString }),
+    objectOf({ action: oneOfValues('delete'), ids: arrayOf(blockVersion) }),
+)
+const jsonPatchOperation = anyOf(
+    objectOf({ op: oneOfValues('add', 'replace'), path: isJsonPatchPath }),
+    objectOf({ op: oneOfValues('remove'), path: isJsonPatchPath }),
+)
+
+const protocolHello = {
+    connectionId: isString,
+    protocolVersion: isNumber,
+    minProtocolVersion: isNumber,
+    capabilities: arrayOf(isString),
+}
+
+const messageSchemas: Record<MessageData['type'], Validator> = {
+    'block-added': objectOf({ index: isIndex, block: savedData, version: blockVersion }),
+    'block-removed': objectOf({ blockId: isString, version: blockVersion }),
+    'block-changed': anyOf(
+        objectOf({ block: savedData, index: isIndex, version: blockVersion }),
+        objectOf({
+            blockId: isString,
+            tool: isString,
+            index: isIndex,
+            patch: arrayOf(jsonPatchOperation),
+            baseVersion: blockVersion,
+            version: blockVersion,
+        }),
+    ),
+    'block-moved': objectOf({ fromBlockId: isString, toBlockIndex: isIndex, toBlockId: isString, version: blockVersion }),
+    'block-data-request': objectOf({ blockId: isString, connectionId: isString, targetConnectionId: isString }),
+    'inline-selection-change': objectOf({
+        anchor: textPosition,
+        focus: textPosition,
+        containerWidth: isNumber,
+        connectionId: isString,
+        color: isString,
+        selectionColor: isString,
+        userName: optional(isString),
+        userAvatarUrl: optional(isString),
+    }),
+    'inline-selection-request': isObject,
+    'user-disconnected': objectOf({ connectionId: isString }),
+    'user-presence-ping': objectOf({ connectionId: isString }),
+    'user-presence-announce': objectOf({
+        connectionId: isString,
+        user: objectOf({ name: optional(isString), avatarUrl: optional(isString), color: optional(isString) }),
+        role: optional(oneOfValues('viewer', 'commenter', 'editor')),
+        isIdle: isBoolean,
+        targetConnectionId: optional(isString),
+    }),
+    'user-viewport-change': objectOf({ connectionId: isString, blockId: nullable(isString), blockOffset: isNumber }),
+    'block-deletion-change': objectOf({ blockId: isString, isDeletePending: isBoolean }),
+    'block-selection-change': objectOf({ blockId: isString, isSelected: isBoolean }),
+    'block-locked': lockedBlock,
+    'block-unlocked': lockedBlock,
+    'block-lock-request': objectOf({ blockId: isString, connectionId: isString, requestId: isString, leaseDuration: optional(isNumber) }),
+    'block-lock-grant': objectOf({ blockId: isString, connectionId: isString, targetConnectionId: isString, requestId: isString }),
+    'block-lock-deny': objectOf({ blockId: isString, connectionId: isString, targetConnectionId: isString, requestId: isString, lockedBy: isString }),
+    'block-lock-renew': objectOf({ blockId: isString, connectionId: isString, leaseDuration: isNumber }),
+    'block-lock-clear': objectOf({ blockId: isString, connectionId: isString, lockedBy: isString }),
+    'block-edit-request': objectOf({ blockId: isString, connectionId: isString, targetConnectionId: isString, requestId: isString }),
+    'block-edit-response': objectOf({ blockId: isString, connectionId: isString, targetConnectionId: isString, requestId: isString, accepted: isBoolean }),
+    'block-lock-takeover': objectOf({ blockId: isString, connectionId: isString, fromConnectionId: isString, requestId: isString }),
+    'block-text-operation': objectOf({ blockId: isString, connectionId: isString, operations: arrayOf(textOperation) }),
+    'document-sync-request': objectOf({ connectionId: isString, requestId: isString }),
+    'document-sync-response': objectOf({
+        connectionId: isString,
+        targetConnectionId: isString,
+        requestId: isString,
+        data: outputData,
+        lockedBlocks: arrayOf(lockedBlock),
+        blockVersions: recordOf(blockVersion),
+    }),
+    'protocol-hello': objectOf(protocolHello),
+    'protocol-welcome': objectOf({ ...protocolHello, targetConnectionId: isString }),
+}
+
+/**
+ * Check that data received through the socket is a message this plugin can handle.
+ * @returns the reason why the message is invalid, or null if it is valid
+ */
+export function validateMessage(data: unknown): string | null {
+    const reason = isObject(data, 'message')
+    if (reason) return reason
+
+    const { type, documentId } = data as { type?: unknown; documentId?: unknown }
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(messageSchemas, type)) return `Unknown message type ${JSON.stringify(type)}`
+
+    return optional(isString)(documentId, `${type}.documentId`) ?? messageSchemas[type as MessageData['type']](data, type)
+}
@@ -0,0 +1,184 @@
+export type CharId = { clock: number; connectionId: string }
+
+export type TextOperation =
+    | {
+        action: 'insert'
+        // id of the first inserted character, the next ones have consecutive clocks
+        id: CharId
+        // null when inserting at the start of the text
+        originId: CharId | null
+        text: string
+    }
+    | { action: 'delete'; ids: CharId[] }
+
+type InsertOperation = Extract<TextOperation, { action: 'insert' }>
+type Char = { id: CharId; value: string; isDeleted: boolean }
+
+// Characters of the initial text have no author, so every user creates the same ids for the same text
+const initialConnectionId = ''
+
+/**
+ * Replicated Growable Array holding the inline HTML of a text block.
+ * Every character gets a unique id, inserts reference the character they were typed after and deletes only hide characters,
+ * so operations from different users can be applied in any order and all users end up with the same text.
+ */
+export default class TextCrdt {
+    private chars: Char[] = []
+    private charKeys = new Set<string>()
+    // inserts received before the character they were typed after
+    private pendingInserts: InsertOperation[] = []
+    // characters deleted before their insert was received, they are hidden once it arrives
+    private pendingDeleteKeys = new Set<string>()
+    private clock = 0
+    private connectionId: string
+
+    public constructor(connectionId: string, initialText = '') {
+        this.connectionId = connectionId
+        for (let i = 0; i < initialText.length; i++) {
+            const char: Char = { id: { clock: i + 1, connectionId: initialConnectionId }, value: initialText[i], isDeleted: false }
+            this.chars.push(char)
+            this.charKeys.add(this.getKey(char.id))
+        }
+        this.clock = initialText.length
+    }
+
+    public toString(): string {
+        let text = ''
+        for (const char of this.chars) {
+            if (!char.isDeleted) text += char.value
+        }
+        return text
+    }
+
+    /**
+     * Diff the new local text against the current one and return the operations to send to the other users.
+     */
+    public applyLocalText(newText: string): TextOperation[] {
+        const oldText = this.toString()
+        if (oldText === newText) return []
+
+        let prefixLength = 0
+        const maxPrefixLength = Math.min(oldText.length, newText.length)
+        while (prefixLength < maxPrefixLength && oldText[prefixLength] === newText[prefixLength]) prefixLength++
+
+        let suffixLength = 0
+        const maxSuffixLength = maxPrefixLength - prefixLength
+        while (
+            suffixLength < maxSuffixLength &&
+            oldText[oldText.length - 1 - suffixLength] === newText[newText.length - 1 - suffixLength]
+        )
+            suffixLength++
+
+        const visibleChars = this.chars.filter(c => !c.isDeleted)
+        const deletedChars = visibleChars.slice(prefixLength, oldText.length - suffixLength)
+        const insertedText = newText.slice(prefixLength, newText.length - suffixLength)
+
+        const operations: TextOperation[] = []
+        if (deletedChars.length) {
+            deletedChars.forEach(c => (c.isDeleted = true))
+            operations.push({ action: 'delete', ids: deletedChars.map(c => ({ ...c.id })) })
+        }
+        if (insertedText.length) {
+            const originId = prefixLength > 0 ? { ...visibleChars[prefixLength - 1].id } : null
+            const operation: TextOperation = {
+                action: 'insert',
+                id: { clock: this.clock + 1, connectionId: this.connectionId },
+                originId,
+                text: insertedText,
+            }
+            this.applyInsert(operation)
+            operations.push(operation)
+        }
+
+        return operations
+    }
+
+    /**
+     * Inserts that wait for characters this replica does not know yet. The text differs from the other users' until they arrive.
+     */
+    public get hasPendingOperations(): boolean {
+        return this.pendingInserts.length > 0
+    }
+
+    /**
+     * Apply operations received from another user. Operations that were already applied are skipped,
+     * operations referencing characters that did not arrive yet are kept and applied once those arrive.
+     * @returns false if some operations are still waiting for other operations
+     */
+    public applyRemoteOperations(operations: TextOperation[]): boolean {
+        for (const operation of operations) {
+            if (operation.action === 'delete') this.applyDelete(operation.ids)
+            else if (this.applyInsert(operation)) this.applyPendingInserts()
+            else this.pendingInserts.push(operation)
+        }
+        return !this.hasPendingOperations
+    }
+
+    // an applied insert might be the origin of pending ones, which might be the origin of other pending ones
+    private applyPendingInserts() {
+        let hasApplied = true
+        while (hasApplied && this.pendingInserts.length) {
+            hasApplied = false
+            this.pendingInserts = this.pendingInserts.filter((operation) => {
+                if (!this.applyInsert(operation)) return true
+                hasApplied = true
+                return false
+            })
+        }
+    }
+
+    /**
+     * @returns false if the origin is not known yet, nothing is inserted then
+     */
+    private applyInsert({ id, originId, text }: InsertOperation): boolean {
+        let previousId = originId
+        for (let i = 0; i < text.length; i++) {
+            const charId: CharId = { clock: id.clock + i, connectionId: id.connectionId }
+            if (!this.integrate({ id: charId, value: text[i], isDeleted: false }, previousId)) return false
+            previousId = charId
+        }
+        return true
+    }
+
+    private applyDelete(ids: CharId[]) {
+        const keys = new Set(ids.map(id => this.getKey(id)))
+        for (const char of this.chars) {
+            const key = this.getKey(char.id)
+            if (!keys.has(key)) continue
+            char.isDeleted = true
+            keys.delete(key)
+        }
+        keys.forEach(key => this.pendingDeleteKeys.add(key))
+    }
+
+    private integrate(char: Char, originId: CharId | null): boolean {
+        this.clock = Math.max(this.clock, char.id.clock)
+        const key = this.getKey(char.id)
+        if (this.charKeys.has(key)) return true
+
+        let index = 0
+        if (originId) {
+            const originKey = this.getKey(originId)
+            const originIndex = this.chars.findIndex(c => this.getKey(c.id) === originKey)
+            if (originIndex === -1) return false
+            index = originIndex + 1
+        }
+        // concurrent inserts after the same character are ordered by id, newer ones first
+        while (index < this.chars.length && this.compareIds(this.chars[index].id, char.id) > 0) index++
+
+        if (this.pendingDeleteKeys.delete(key)) char.isDeleted = true
+        this.chars.splice(index, 0, char)
+        this.charKeys.add(key)
+        return true
+    }
+
+    private compareIds(a: CharId, b: CharId): number {
+        if (a.clock !== b.clock) return a.clock - b.clock
+        if (a.connectionId === b.connectionId) return 0
+        return a.connectionId > b.connectionId ? 1 : -1
+    }
+
+    private getKey(id: CharId) {
+        return `${id.clock}@${id.connectionId}`
+    }
+}
@@ -4,10 +4,17 @@ import EditorJS, {
     type BlockMovedMutationType,
     type BlockChangedMutationType,
     type BlockMutationEventMap,
+    type OutputData,
     BlockAPI,
 } from '@editorjs/editorjs'
 import { type SavedData } from '@editorjs/editorjs/types/data-formats/block-data'
 import { type PickFromConditionalType, type MakeConditionalType } from './UtilityTypes'
+import TextCrdt, { type TextOperation } from './TextCrdt'
+import { applyJsonPatch, createJsonPatch, deepEqual, type JsonPatchOperation } from './JsonPatch'
+import { validateMessage } from './MessageValidation'
+import { decryptMessage, encryptMessage, type EncryptedMessage, type EncryptionKey } from './MessageEncryption'
+import { ReplayGuard, signMessage, verifyMessage, type MessageAuthentication, type SignedMessage } from './MessageAuthentication'
+import LockArbiter from './LockArbiter'
 import { throttle, debounce } from 'throttle-debounce'
 import './index.css'
 
@@ -20,9 +27,44 @@ const UserBlockDeletionChangeType = 'block-deletion-change'
 
 const UserDisconnectedType = 'user-disconnected'
 const UserPresencePingType = 'user-presence-ping'
+const UserPresenceAnnounceType = 'user-presence-announce'
+const UserViewportChangeType = 'user-viewport-change'
 
 const BlockLockedType = 'block-locked'
 const BlockUnlockedType = 'block-unlocked'
+const BlockTextOperationType = 'block-text-operation'
+const BlockDataRequestType = 'block-data-request'
+const BlockLockRequestType = 'block-lock-request'
+const BlockLockGrantType = 'block-lock-grant'
+const BlockLockDenyType = 'block-lock-deny'
+const BlockEditRequestType = 'block-edit-request'
+const BlockEditResponseType = 'block-edit-response'
+const BlockLockTakeoverType = 'block-lock-takeover'
+const BlockLockRenewType = 'block-lock-renew'
+const BlockLockClearType = 'block-lock-clear'
+
+const DocumentSyncRequestType = 'document-sync-request'
+const DocumentSyncResponseType = 'document-sync-response'
+
+// remote changes that move the text around, the cursors of the other users are positioned again afterwards
+const ReflowingMessageTypes: string[] = ['block-added', 'block-changed', 'block-moved', 'block-removed', BlockTextOperationType]
+
+// answers of the lock arbiter, a server running `LockArbiter` sends nothing else and is neither a peer nor a user
+const LockArbiterAnswerTypes: string[] = [BlockLockGrantType, BlockLockDenyType]
+
+const ProtocolHelloType = 'protocol-hello'
+const ProtocolWelcomeType = 'protocol-welcome'
+
+/**
+ * Increase when a message changes in a way older clients can not handle.
+ * Increase the min compatible version as well if newer clients can not talk to older ones anymore.
+ */
+const PROTOCOL_VERSION = 4
+// cursor positions are text offsets since version 2, version 3 added viewport messages, version 4 lock clearing
+const MIN_COMPATIBLE_PROTOCOL_VERSION = 2
+const SUPPORTED_CAPABILITIES: ProtocolCapability[] = ['document-sync', 'block-versions', 'text-sync', 'block-deltas']
+// time to wait for text operations that arrived out of order before requesting the full block. Value is in ms
+const PENDING_TEXT_OPERATIONS_TIMEOUT = 3_000
 
 export type GroupCollabConfigOptions = {
     editor: EditorJS
@@ -40,6 +82,13 @@ type LocalConfig = {
      * @default 1500
      */
     blockLockDebounceTime: number
+    /**
+     * Locks are leases the owner renews while holding them. The other users release a lock that was not renewed for this long,
+     * so a lost unlock message or a closed tab does not keep the block locked until the owner goes stale. Pinned locks have no lease.
+     * Value is in ms
+     * @default 15_000
+     */
+    lockLeaseDuration: number
     /**
      * Time in ms to consider a user idle and remove their cursors and selections. This is used to prevent stale cursors/selections from users that have disconnected without triggering the disconnect event (e.g. by closing the laptop or losing internet connection).
      * @default 60_000
@@ -51,7 +100,154 @@ type LocalConfig = {
      * @default ["table"]
     */
     toolsWithDataCheck: string[];
-    cursor?: { color?: string; selectionColor?: string; };
+    /**
+     * Tools whose inline HTML is kept in `data.text` (e.g. paragraph and header) can be synced character by character instead of sending the whole block.
+     * Several users can then type in the same block at the same time, so blocks of these tools are never locked.
+     * @default []
+     */
+    textSyncTools: string[]
+    /**
+     * Send block changes as a JSON patch against the last block data sent, instead of the full block data.
+     * Receivers that do not have the same base data ask the sender for the full block.
+     * @default false
+     */
+    blockChangeDeltas: boolean
+    /**
+     * Request a full document snapshot from the other users when `listen()` is called, so late joiners and reconnecting clients start from the same state.
+     * Every connected user answers with the whole document, so each join costs one snapshot per user unless your server answers instead (see `onSyncRequested`).
+     * @default false
+     */
+    syncOnListen: boolean
+    /**
+     * Show who is working above or below the visible part of the editor, pinned to the top and bottom edge of the editor in each user's color.
+     * Clicking an indicator scrolls to the user.
+     * @default false
+     */
+    offscreenIndicators: boolean
+    /**
+     * Show the avatars or initials of the users that are in or editing a block next to it, in the gutter left of the block content.
+     * @default false
+     */
+    presenceBadges: boolean
+    /**
+     * Time in ms to wait for a snapshot response after calling `requestSync()`. Late responses are ignored.
+     * @default 5_000
+     */
+    syncResponseTimeout: number
+    /**
+     * Called when another user asks for a full document snapshot. Return `false` to prevent this client from answering, for example when your server answers sync requests itself.
+     */
+    onSyncRequested?: (request: { connectionId: string }) => boolean | void
+    /**
+     * Called with the reason when a message received through the socket is malformed (e.g. sent by an old client or changed by a proxy). Invalid messages never reach the editor.
+     * When not set, invalid messages are logged as warnings.
+     */
+    onInvalidMessage?: (data: unknown, reason: string) => void
+    /**
+     * Called when a user joins with a protocol version this client can not talk to. Messages from incompatible users are ignored.
+     */
+    onIncompatiblePeer?: (peer: PeerProtocol) => void
+    /**
+     * Called for every change made while offline whose block was also changed by another user in the meantime.
+     * Return `'local'` to keep the offline change, otherwise the remote block is kept and the offline change is discarded.
+     * Either way the `offline-conflict` event is emitted.
+     */
+    onOfflineConflict?: (conflict: OfflineConflict) => 'local' | 'remote'
+    /**
+     * Name, avatar and color shown to the other users. The color defaults to `cursor.color`.
+     */
+    user?: UserMetadata
+    /**
+     * Sent with every message, messages of other documents are ignored. Set it when several editors share one socket,
+     * e.g. a dashboard with one editor per document, or when the socket is not scoped to a single document.
+     */
+    documentId?: string
+    /**
+     * Ask an arbiter for block locks instead of locking blocks right away, so two users that start typing in the same block at the same moment can not both get it.
+     * Typing in a block is prevented until the lock is granted. The arbiter is the user with this `connectionId`, whose plugin answers lock requests,
+     * or your server running `LockArbiter`.
+     */
+    lockArbiter?: {
+        connectionId: string
+        /**
+         * Time in ms to wait for an answer, afterwards typing requests the lock again.
+         * @default 5_000
+         */
+        requestTimeout?: number
+    }
+    /**
+     * Let users ask the owner of a locked block to hand it over, instead of waiting until the owner goes stale.
+     * If the owner does not answer within the grace period, the lock is transferred anyway. Pinned locks are never transferred without an answer.
+     */
+    editRequests?: {
+        /**
+         * Send an edit request when clicking a block locked by another user. Use `requestEdit()` otherwise.
+         * @default true
+         */
+        requestOnClick?: boolean
+        /**
+         * Time in ms to wait for the owner's answer before taking over the lock.
+         * @default 10_000
+         */
+        gracePeriod?: number
+    }
+    /**
+     * Called on the lock owner's side when another user asks to edit a block. Return (or resolve) `true` to hand over the lock, `false` to keep it.
+     * Returning nothing lets the grace period decide.
+     */
+    onEditRequested?: (request: { blockId: string; user: CollabUser }) => boolean | void | Promise<boolean | void>
+    /**
+     * What this user is allowed to do. Viewers and commenters see every remote change, but the editor is made read-only and they never send block changes.
+     * Commenters still share their cursor and text selection, viewers share nothing.
+     * The role is announced to the other users, who ignore block changes from viewers and commenters.
+     * @default 'editor'
+     */
+    role: CollabRole
+    /**
+     * Called whenever a user joins, leaves, goes idle, moves to another block or locks/unlocks a block.
+     */
+    onUsersChanged?: (users: CollabUser[]) => void
+    /**
+     * Functions every message passes through before it is sent (`outgoing`) or handled (`incoming`), in array order.
+     * Incoming messages are validated before they reach the middleware and again after it, invalid output is passed to `onInvalidMessage`.
+     */
+    middleware?: {
+        outgoing?: MessageMiddleware[]
+        incoming?: MessageMiddleware[]
+    }
+    /**
+     * Encrypt messages with AES-GCM before sending them, after the outgoing middleware. Every user of the document needs the same keys.
+     * Only the message type and connection ids stay readable for the server, unencrypted messages are rejected.
+     */
+    encryption?: {
+        key: EncryptionKey
+        // older keys still accepted for incoming messages, see `rotateEncryptionKey()`
+        previousKeys?: EncryptionKey[]
+    }
+    /**
+     * Sign outgoing messages and verify incoming ones, so users can not send messages in the name of another user (e.g. to release their locks).
+     * A message carrying a `connectionId`, block version or inserted text is only accepted if it was signed by the owner of that `connectionId`.
+     * Messages that are too old or were already received are rejected, so recorded messages can not be replayed.
+     */
+    authentication?: MessageAuthentication
+    /**
+     * Called with the reason when a message is not signed, its signature is invalid or it is a replay. Forged messages never reach the editor.
+     * When not set, forged messages are logged as warnings.
+     */
+    onForgedMessage?: (data: unknown, reason: string) => void
+    cursor?: {
+        color?: string;
+        selectionColor?: string;
+        /**
+         * Show a label with the user's name (or initials) above remote cursors, and a tooltip when hovering remote selections.
+         * @default 'none'
+         */
+        label?: 'name' | 'initials' | 'none';
+        /**
+         * Render a custom label element above remote cursors instead of the default one. Only used when `label` is not `'none'`.
+         */
+        renderLabel?: (user: CursorLabelUser) => HTMLElement;
+    };
     overrideStyles?: {
         cursorClass?: string;
         selectedClass?: string;
@@ -61,11 +257,17 @@ type LocalConfig = {
     };
 }
 
-export type MessageData =
-    | MakeConditionalType<{ index: number; block: SavedData }, typeof BlockAddedMutationType>
+export type MessageData = MessageBody & {
+    // set on every message when the plugin is configured with `documentId`
+    documentId?: string
+}
+
+type MessageBody =
+    | MakeConditionalType<{ index: number; block: SavedData; version: BlockVersion }, typeof BlockAddedMutationType>
     | MakeConditionalType<
         {
             blockId: string
+            version: BlockVersion
         },
         typeof BlockRemovedMutationType
     >
@@ -74,15 +276,19 @@ export type MessageData =
             block: SavedData
             // in case block.id is not found
             index: number
+            version: BlockVersion
         },
         typeof BlockChangedMutationType
     >
+    | MakeConditionalType<BlockPatchData, typeof BlockChangedMutationType>
+    | MakeConditionalType<{ blockId: string; connectionId: string; targetConnectionId: string }, typeof BlockDataRequestType>
     | MakeConditionalType<
         {
             fromBlockId: string
             //used to guarantee sync between editors
             toBlockIndex: number
             toBlockId: string
+            version: BlockVersion
         },
         typeof BlockMovedMutationType
     >
@@ -94,29 +300,273 @@ export type MessageData =
 
     | MakeConditionalType<{ connectionId: string }, typeof UserDisconnectedType>
     | MakeConditionalType<{ connectionId: string }, typeof UserPresencePingType>
+    | MakeConditionalType<
+        {
+            connectionId: string
+            user: UserMetadata
+            // older clients do not announce a role, they are editors
+            role?: CollabRole
+            isIdle: boolean
+            // set when answering the announcement of a user that just joined
+            targetConnectionId?: string
+        },
+        typeof UserPresenceAnnounceType
+    >
+    | MakeConditionalType<UserViewport & { connectionId: string }, typeof UserViewportChangeType>
 
     | MakeConditionalType<{ blockId: string; isDeletePending: boolean }, typeof UserBlockDeletionChangeType>
     | MakeConditionalType<{ blockId: string; isSelected: boolean }, typeof UserBlockSelectionChangeType>
 
     | MakeConditionalType<LockedBlock, typeof BlockLockedType>
     | MakeConditionalType<LockedBlock, typeof BlockUnlockedType>
+    | MakeConditionalType<LockedBlock & { requestId: string }, typeof BlockLockRequestType>
+    | MakeConditionalType<
+        {
+            blockId: string
+            // the arbiter
+            connectionId: string
+            // the user that asked for the lock
+            targetConnectionId: string
+            requestId: string
+        },
+        typeof BlockLockGrantType
+    >
+    | MakeConditionalType<
+        {
+            blockId: string
+            connectionId: string
+            targetConnectionId: string
+            requestId: string
+            // the user that currently owns the lock
+            lockedBy: string
+        },
+        typeof BlockLockDenyType
+    >
+    | MakeConditionalType<
+        {
+            blockId: string
+            // the user asking to edit
+            connectionId: string
+            // the lock owner
+            targetConnectionId: string
+            requestId: string
+        },
+        typeof BlockEditRequestType
+    >
+    | MakeConditionalType<
+        {
+            blockId: string
+            connectionId: string
+            targetConnectionId: string
+            requestId: string
+            accepted: boolean
+        },
+        typeof BlockEditResponseType
+    >
+    | MakeConditionalType<
+        {
+            blockId: string
+            // the new owner
+            connectionId: string
+            // the owner that did not answer the edit request in time
+            fromConnectionId: string
+            requestId: string
+        },
+        typeof BlockLockTakeoverType
+    >
+    | MakeConditionalType<LockLeaseData, typeof BlockLockRenewType>
+    // `connectionId` released the lock of `lockedBy`, e.g. a pinned lock of a user that left
+    | MakeConditionalType<{ blockId: string; connectionId: string; lockedBy: string }, typeof BlockLockClearType>
+    | MakeConditionalType<{ blockId: string; connectionId: string; operations: TextOperation[] }, typeof BlockTextOperationType>
 
-type UserInlineSelectionData = {
-    elementXPath: string
+    | MakeConditionalType<{ connectionId: string; requestId: string }, typeof DocumentSyncRequestType>
+    | MakeConditionalType<
+        DocumentSnapshot & {
+            // the user that answered
+            connectionId: string
+            // the user that asked for the snapshot
+            targetConnectionId: string
+            requestId: string
+        },
+        typeof DocumentSyncResponseType
+    >
+
+    | MakeConditionalType<ProtocolHelloData, typeof ProtocolHelloType>
+    | MakeConditionalType<ProtocolHelloData & { targetConnectionId: string }, typeof ProtocolWelcomeType>
+
+/**
+ * Features a client can handle. Features not supported by every connected user are not used.
+ */
+export type ProtocolCapability = 'document-sync' | 'block-versions' | 'text-sync' | 'block-deltas'
+
+export type PeerProtocol = {
+    connectionId: string
+    // 0 for clients older than the protocol handshake
+    protocolVersion: number
+    minProtocolVersion: number
+    capabilities: ProtocolCapability[]
+    isCompatible: boolean
+}
+
+type ProtocolHelloData = {
+    connectionId: string
+    protocolVersion: number
+    minProtocolVersion: number
+    capabilities: ProtocolCapability[]
+}
+
+export type SocketStatus = 'connected' | 'disconnected'
+
+export type UserMetadata = {
+    name?: string
+    avatarUrl?: string
+    color?: string
+}
+
+export type CollabRole = 'viewer' | 'commenter' | 'editor'
+
+export type CollabUser = {
+    connectionId: string
+    role: CollabRole
+    name: string
+    avatarUrl: string | null
+    color: string
+    // the user's tab is hidden or not focused
+    isIdle: boolean
+    // block of the user's cursor or selection
+    currentBlockId: string | null
+    lockedBlockIds: string[]
+}
+
+export type OfflineConflict = {
+    blockId: string
+    // the change made while offline
+    localMessage: OutboxMessage
+    // the block in the current remote document, null if it was removed
+    remoteBlock: OutputBlockData | null
+    remoteVersion: BlockVersion
+}
+
+type OutputBlockData = OutputData['blocks'][number]
+type ExternalUser = { user: UserMetadata; role: CollabRole; isIdle: boolean; currentBlockId: string | null }
+type OutboxMessage = Extract<MessageData, { type: EditorEvents }>
+
+export type DocumentSnapshot = {
+    data: OutputData
+    lockedBlocks: LockedBlock[]
+    blockVersions: Record<string, BlockVersion>
+}
+
+/**
+ * Lamport clock of the last change applied to a block. `connectionId` breaks ties between changes made with the same clock.
+ */
+export type BlockVersion = { clock: number; connectionId: string }
+
+// moves and content changes are versioned separately, moving a block must not make a concurrent change of its content look stale
+type BlockVersionKind = 'content' | 'position'
+
+type BlockPatchData = {
+    blockId: string
+    tool: string
+    // in case block.id is not found
+    index: number
+    // operations against the block data at `baseVersion`
+    patch: JsonPatchOperation[]
+    baseVersion: BlockVersion
+    version: BlockVersion
+}
+
+/**
+ * `local` events are caused by this user, `remote` events by other users. `connectionId` is the user that caused the event.
+ */
+type CollabEventOrigin = { source: 'local' | 'remote'; connectionId: string }
+
+/**
+ * Position of a cursor, independent of the markup inside the input, so it survives formatting differences between users
+ */
+export type InlineSelectionPosition = {
     blockId: string
+    // index of the editable element in the block, for tools with several inputs
+    inputIndex: number
+    // in characters of the text content of the input
+    offset: number
+}
+
+export type CollabEventMap = {
+    'block-added': CollabEventOrigin & { blockId: string; tool: string; index: number }
+    'block-changed': CollabEventOrigin & { blockId: string; index: number }
+    'block-moved': CollabEventOrigin & { blockId: string; toIndex: number }
+    'block-removed': CollabEventOrigin & { blockId: string }
+    'block-locked': CollabEventOrigin & LockedBlock
+    'block-unlocked': CollabEventOrigin & { blockId: string }
+    // only with `lockArbiter`
+    'block-lock-denied': { blockId: string; lockedBy: string }
+    // only with `editRequests`, `connectionId` is the previous lock owner
+    'edit-request-answered': { blockId: string; connectionId: string; outcome: 'accepted' | 'denied' | 'transferred' }
+    // block selection messages do not carry the user that sent them
+    'block-selection-change': Pick<CollabEventOrigin, 'source'> & { blockId: string; isSelected: boolean }
+    'block-deletion-change': Pick<CollabEventOrigin, 'source'> & { blockId: string; isDeletePending: boolean }
+    'inline-selection-change': CollabEventOrigin & Pick<UserInlineSelectionData, 'anchor' | 'focus'>
+    'user-joined': { user: CollabUser }
+    'user-left': { connectionId: string }
+    'user-stale': { connectionId: string }
+    'user-idle-change': { connectionId: string; isIdle: boolean }
+    // `connectionId` is null when following stopped
+    'following-change': { connectionId: string | null }
+    'send-failed': { message: MessageData; error: unknown }
+    // only with `socket.onStatusChange`, `kept` is the side that won
+    'offline-conflict': OfflineConflict & { kept: 'local' | 'remote' }
+}
+export type CollabEventName = keyof CollabEventMap
+export type CollabEventHandler<K extends CollabEventName> = (payload: CollabEventMap[K]) => void
+
+export type MessageMiddlewareContext = {
+    direction: 'outgoing' | 'incoming'
+    // the local user
+    connectionId: string
+    // including the block locked by the local user
+    lockedBlocks: LockedBlock[]
+    editor: EditorJS
+}
+
+/**
+ * Return the message to pass it on (changed or not), `null` to drop it or several messages to split it.
+ * Returning a promise delays the message, messages are handled synchronously otherwise.
+ */
+export type MessageMiddleware = (message: MessageData, context: MessageMiddlewareContext) => MessageMiddlewareResult | Promise<MessageMiddlewareResult>
+type MessageMiddlewareResult = MessageData | MessageData[] | null
+
+export type CursorLabelUser = {
+    connectionId: string
+    name: string
+    avatarUrl: string | null
+    color: string
+}
+
+type UserInlineSelectionData = {
+    // the same position as `focus` for a collapsed cursor, the caret is at `focus`
+    anchor: InlineSelectionPosition
+    focus: InlineSelectionPosition
     // rects: Rect[]
     containerWidth: number
 
     connectionId: string;
     color: string;
     selectionColor: string;
-
-    //idk if i'll use these
-    elementNodeIndex: number
-    anchorOffset: number
-    focusOffset: number
+    // shown in cursor labels, older clients do not send these
+    userName?: string;
+    userAvatarUrl?: string;
 }
-type Rect = Pick<DOMRect, 'top' | 'left' | 'width'>
+/**
+ * The part of the document a user sees, independent of screen size and zoom
+ */
+export type UserViewport = {
+    // first block visible at the top of the viewport, null for an empty document
+    blockId: string | null
+    // how far that block is scrolled out of the viewport, from 0 (its top is visible) to 1
+    blockOffset: number
+}
+type RemoteInlineSelection = Omit<PickFromConditionalType<MessageData, typeof UserInlineSelectionChangeType>, 'type'>
 type PossibleEventDetails = {
     target: BlockAPI
 } & (
@@ -127,19 +577,84 @@ type PossibleEventDetails = {
         | MakeConditionalType<{ fromIndex: number; toIndex: number }, typeof BlockMovedMutationType>
     )
 
-type LockedBlock = { blockId: string; connectionId: string }
+export type LockedBlock = {
+    blockId: string
+    connectionId: string
+    // only set for locks created with `lockBlock()`
+    reason?: string
+    // kept when the owner disconnects
+    pinned?: boolean
+    // timestamp in ms
+    expiresAt?: number
+    // time in ms the lock is valid without being renewed, not set for pinned locks and older clients
+    leaseDuration?: number
+    // timestamp in ms on this user's clock, set when the lock is received or renewed
+    leaseExpiresAt?: number
+}
+export type BlockLockOptions = Pick<LockedBlock, 'reason' | 'pinned' | 'expiresAt'>
+type LockLeaseData = { blockId: string; connectionId: string; leaseDuration: number }
+// an input prevented while waiting for the lock arbiter, as `document.execCommand` arguments
+type PendingInput = { command: 'insertText' | 'delete' | 'forwardDelete'; value?: string }
+// `lockOptions` is set for `lockBlock()`, the request is for a typing lock otherwise
+type LockRequest = { requestId: string; timeout: number; pendingInputs: PendingInput[]; lockOptions?: BlockLockOptions }
 type EditorEvents = keyof BlockMutationEventMap
+type TextSyncState = { crdt: TextCrdt; toolData: ToolData }
 type Events = EditorEvents | typeof UserInlineSelectionChangeType | typeof UserBlockSelectionChangeType | typeof UserBlockDeletionChangeType | typeof BlockLockedType | typeof BlockUnlockedType
 type ToolData = { data: Object, tunes: Object };
 
+export type { EncryptionKey, EncryptedMessage, MessageAuthentication, SignedMessage }
+
 export type INeededSocketFields = {
-    send(data: MessageData): void
+    // messages are signed if `authentication` is configured and encrypted if `encryption` is configured
+    send(data: MessageData | SignedMessage | EncryptedMessage): void
     on(callback: (data: MessageData) => void): void
-    off(): void;
+    // receives the callback passed to `on`, called once every instance sharing the socket stopped listening
+    off(callback?: (data: MessageData) => void): void;
     connectionId: string;
+    /**
+     * Report connection changes. While disconnected, block changes are kept in an outbox and replayed once connected again.
+     */
+    onStatusChange?(callback: (status: SocketStatus) => void): void
+    // remove the callback passed to `onStatusChange`, without it the callback is registered only once
+    offStatusChange?(callback: (status: SocketStatus) => void): void
+}
+
+type SocketListeners = { callbacks: Set<(data: MessageData) => void>; dispatch: (data: MessageData) => void }
+
+// instances sharing a socket register one callback on it, so an `off` that removes every callback does not disconnect the other instances
+const socketListeners = new WeakMap<INeededSocketFields, SocketListeners>()
+
+function addSocketListener(socket: INeededSocketFields, callback: (data: MessageData) => void) {
+    let listeners = socketListeners.get(socket)
+    if (!listeners) {
+        const callbacks = new Set<(data: MessageData) => void>()
+        listeners = { callbacks, dispatch: data => callbacks.forEach(cb => cb(data)) }
+        socketListeners.set(socket, listeners)
+        socket.on(listeners.dispatch)
+    }
+    listeners.callbacks.add(callback)
+}
+
+function removeSocketListener(socket: INeededSocketFields, callback: (data: MessageData) => void) {
+    const listeners = socketListeners.get(socket)
+    if (!listeners?.callbacks.delete(callback) || listeners.callbacks.size) return
+    socketListeners.delete(socket)
+    socket.off(listeners.dispatch)
+}
+
+// crypto.randomUUID is only available on secure pages (https or localhost)
+function createId(): string {
+    if (typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+    const bytes = crypto.getRandomValues(new Uint8Array(16))
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
 }
 
 export default class GroupCollab {
+    /**
+     * Reference arbiter for `lockArbiter`, e.g. to answer lock requests on your server
+     */
+    public static LockArbiter = LockArbiter
+
     // Config
     private editor: EditorJS
     private socket: INeededSocketFields
@@ -150,10 +665,20 @@ export default class GroupCollab {
     private _currentEditorLockingBlockId: string | null = null;
     private _lockedBlocks: LockedBlock[] = [];
     private _customToolsInternalState: Record<string, ToolData> = {}
+    private _textSyncStates: Record<string, TextSyncState> = {}
 
     // events to ignore until next render
     private ignoreEvents: Record<string, Set<Events>> = {}
     private redactorObserver: MutationObserver
+    private layoutObserver: ResizeObserver
+    // last position of every remote user, their cursors are drawn again from it when the layout changes
+    private _remoteSelections: Record<string, RemoteInlineSelection> = {}
+    // text of the inputs at the remote positions when they were received, to move the positions along when text is changed before them
+    private _remoteSelectionTexts: Record<string, { anchor: string | null; focus: string | null }> = {}
+    private _remoteViewports: Record<string, UserViewport> = {}
+    private _lastSentViewport: UserViewport | null = null
+    private _followedConnectionId: string | null = null
+    private offscreenIndicatorElements: Record<'above' | 'below', HTMLDivElement> | null = null
     private toolboxObserver: MutationObserver;
     private editorStyleElement: HTMLStyleElement;
     private throttledBlockChange?: throttle<(target: BlockAPI, index: number) => Promise<void>> = undefined
@@ -161,40 +686,97 @@ export default class GroupCollab {
     private _debouncedBlockUnlockingsMap: Record<string, debounce<(blockId: string, connectionId: string) => void>> = {};
     private localBlockStates: Record<string, Set<'selected' | 'focused' | "deleting">> = {}
     private externalUserLastSeenMap: Record<string, number> = {}
+    private _blockVersions: Record<string, BlockVersion> = {}
+    private _blockPositionVersions: Record<string, BlockVersion> = {}
+    private _lamportClock = 0
+    private _lastKnownBlockData: Record<string, { data: SavedData['data']; version: BlockVersion }> = {}
+    private _pendingSyncRequest: { requestId: string; timeout: number; onResponse: (snapshot: DocumentSnapshot | null) => void } | null = null
+    private _isApplyingSnapshot = false
+    private _peerProtocols: Record<string, PeerProtocol> = {}
+    private _socketStatus: SocketStatus = 'connected'
+    private _isStatusChangeRegistered = false
+    private _outbox: OutboxMessage[] = []
+    private _blockVersionsAtDisconnect: Record<string, BlockVersion> = {}
+    private _externalUsers: Record<string, ExternalUser> = {}
+    // roles of users removed by the stale cleanup, they keep them once they send messages again
+    private _staleUserRoles: Record<string, CollabRole> = {}
+    private _lastNotifiedUsers = '[]'
+    private _eventHandlers: Partial<Record<CollabEventName, Set<(payload: any) => void>>> = {}
+    // the first key encrypts, all of them decrypt
+    private _encryptionKeys: EncryptionKey[] = []
+    private _replayGuard: ReplayGuard | null = null
+    // signing, verifying and encrypting are async, the queues keep messages in order
+    private _sendQueue: Promise<void> = Promise.resolve()
+    private _lockArbiter: LockArbiter | null = null
+    // the user that is the arbiter left, blocks are locked right away until it is back
+    private _isLockArbiterGone = false
+    private _lockRequests: Record<string, LockRequest> = {}
+    // blocks the arbiter granted to the local user
+    private _grantedBlockIds = new Set<string>()
+    // locks created with lockBlock(), they are not released after inactivity
+    private _ownLocks: Record<string, LockedBlock> = {}
+    private _lockExpiryTimeouts: Record<string, number> = {}
+    private _pendingTextTimeouts: Record<string, number> = {}
+    private leaseRenewalInterval?: number
+    private _editRequests: Record<string, { requestId: string; ownerConnectionId: string; timeout: number }> = {}
+    private _receiveQueue: Promise<void> = Promise.resolve()
     private externalUsersCleanupInterval?: number
     private presencePingInterval?: number
 
     private editorBlockEvent = 'block changed'
     private editorDomChangedEvent = 'redactor dom changed' // this might need more investigation before any usage
     private blockIdAttributeName = 'data-id'
+    private instanceAttributeName = 'data-realtime-collab-instance'
+    // tells apart several editors on the same page
+    private instanceId = createId()
     private inlineFakeCursorAttributeName = 'data-realtime-fake-inline-cursor'
     private inlineFakeSelectionAttributeName = 'data-realtime-fake-inline-selection'
     private connectionIdAttributeName = 'data-realtime-connection-id'
+    private userNameAttributeName = 'data-realtime-user-name'
+    private cursorLabelAttributeName = 'data-realtime-cursor-label'
+    private lockReasonAttributeName = 'data-realtime-lock-reason'
+    private lockPinnedAttributeName = 'data-realtime-lock-pinned'
+    private selectionTooltipElement: HTMLDivElement | null = null
+    private presenceBlockAttributeName = 'data-realtime-presence-block'
+    private presenceKeyAttributeName = 'data-realtime-presence-key'
     public constructor({ editor, socket, ...config }: GroupCollabConfigOptions) {
         this.editor = editor
         this.socket = socket
         if (!this.socket.connectionId) {
             console.error("{connectionId} is not set for EditorJSGroupCollab plugin. Some features might not work")
-            this.socket.connectionId = "random-" + crypto.randomUUID();
+            this.socket.connectionId = "random-" + createId();
         }
 
 
         const defaultConfig: LocalConfig = {
             blockChangeThrottleDelay: 300,
             blockLockDebounceTime: 1500,
+            lockLeaseDuration: 15_000,
             externalUserIdleTimeout: 60_000,
             toolsWithDataCheck: ["table"],
+            textSyncTools: [],
+            blockChangeDeltas: false,
+            syncOnListen: false,
+            offscreenIndicators: false,
+            presenceBadges: false,
+            syncResponseTimeout: 5_000,
+            role: 'editor',
         }
         this.config = {
             ...defaultConfig,
             ...(config ?? {}),
         }
+        if (this.config.encryption)
+            this._encryptionKeys = [this.config.encryption.key, ...(this.config.encryption.previousKeys ?? [])]
+        if (this.config.authentication) this._replayGuard = new ReplayGuard(this.config.authentication.maxMessageAge)
         this.redactorObserver = new MutationObserver((mutations, observer) => {
             for (let mutation of mutations) {
                 this.handleMutation(mutation)
             }
         })
 
+        this.layoutObserver = new ResizeObserver(this.onLayoutChange)
+
         this.toolboxObserver = new MutationObserver((mutations, observer) => {
             const lastMutation = mutations.at(-1)
             if (!lastMutation) return
@@ -203,8 +785,11 @@ export default class GroupCollab {
 
         this.editorStyleElement = document.createElement('style')
         this.setupStyleElement()
+        // the holder might not exist before the editor is ready, the scoped styles need its attribute. Errors are reported by the editor
+        this.editor.isReady?.then(() => this.setupStyleElement(), () => {})
         this.setupThrottledListeners()
-        this.initializeCustomToolsState();
+        this.initializeCustomToolsState((this.editor as any).configuration.data?.blocks ?? []);
+        this.initializeTextSyncStates((this.editor as any).configuration.data?.blocks ?? []);
     }
 
     //#region Public API
@@ -220,32 +805,209 @@ export default class GroupCollab {
         const oldLockedBlocks = this._lockedBlocks
         this._lockedBlocks = value.map(b => ({ ...b }))
         this.renderLockedBlocks(oldLockedBlocks, this._lockedBlocks)
+        oldLockedBlocks
+            .filter(ob => !this._lockedBlocks.some(nb => nb.blockId === ob.blockId && nb.connectionId === ob.connectionId))
+            .forEach(({ blockId, connectionId }) => this.clearLockExpiry(blockId, connectionId))
+        this._lockedBlocks.forEach(lock => this.scheduleLockExpiry(lock))
     }
 
     public get currentLockedBlockId(): string | null {
         return this._currentEditorLockingBlockId;
     }
+
+    /**
+     * Lock a block for the other users, e.g. to freeze a signed-off section or to reserve a block while content is generated for it.
+     * Unlike locks created by typing, it is only released by `unlockBlock()` or once `expiresAt` passed. Pinned locks are kept when this user disconnects.
+     * With `lockArbiter`, the lock is created once granted and `block-lock-denied` is emitted otherwise.
+     * @returns false if the block is already locked by another user
+     */
+    public lockBlock(blockId: string, options: BlockLockOptions = {}): boolean {
+        if (!this.isListening) return false
+        if (this.lockedBlocks.some(b => b.blockId === blockId)) return false
+
+        const isOwnedAlready = Boolean(this._ownLocks[blockId]) || this._grantedBlockIds.has(blockId)
+        if (this.hasLockArbiter && !isOwnedAlready) {
+            this.requestBlockLock(blockId, options)
+            return Boolean(this._ownLocks[blockId] || this._lockRequests[blockId])
+        }
+
+        this.createOwnLock(blockId, options)
+        return true
+    }
+
+    /**
+     * Release the lock of another user, e.g. a pinned lock whose owner left for good. Only editors can do this.
+     * @returns false if the block is not locked by another user
+     */
+    public forceUnlockBlock(blockId: string): boolean {
+        if (!this.isListening || this.config.role !== 'editor') return false
+        const lock = this.lockedBlocks.find(b => b.blockId === blockId)
+        if (!lock) return false
+
+        this.sendLockMessage({ type: BlockLockClearType, blockId, connectionId: this.socket.connectionId, lockedBy: lock.connectionId })
+        this.lockedBlocks = this.lockedBlocks.filter(b => b.blockId !== blockId)
+        this.removeStyleFromDOM(blockId)
+        this.emit('block-unlocked', { source: 'local', connectionId: this.socket.connectionId, blockId })
+        this.notifyUsersChanged()
+        return true
+    }
+
+    private createOwnLock(blockId: string, { reason, pinned, expiresAt }: BlockLockOptions) {
+        // a lock created by typing becomes this lock
+        this._debouncedBlockUnlockingsMap[blockId]?.cancel()
+        delete this._debouncedBlockUnlockingsMap[blockId]
+        if (this._currentEditorLockingBlockId === blockId) this._currentEditorLockingBlockId = null
+
+        const lock: LockedBlock = { blockId, connectionId: this.socket.connectionId }
+        if (reason !== undefined) lock.reason = reason
+        if (pinned !== undefined) lock.pinned = pinned
+        if (expiresAt !== undefined) lock.expiresAt = expiresAt
+        if (!pinned) lock.leaseDuration = this.config.lockLeaseDuration
+        this._ownLocks[blockId] = lock
+        this.sendLockMessage({ type: BlockLockedType, ...lock })
+        this.emit('block-locked', { source: 'local', ...lock })
+        this.scheduleLockExpiry(lock)
+        this.notifyUsersChanged()
+    }
+
+    /**
+     * Ask the owner of a locked block to hand it over, see `editRequests`.
+     * @returns false if the block is not locked by another user or a request is already pending
+     */
+    public requestEdit(blockId: string): boolean {
+        if (!this.isListening || !this.config.editRequests || this._editRequests[blockId]) return false
+        const lock = this.lockedBlocks.find(b => b.blockId === blockId)
+        if (!lock) return false
+
+        const requestId = createId()
+        const timeout = window.setTimeout(() => this.takeOverBlockLock(blockId), this.config.editRequests.gracePeriod ?? 10_000)
+        this._editRequests[blockId] = { requestId, ownerConnectionId: lock.connectionId, timeout }
+        this.sendMessage({ type: BlockEditRequestType, blockId, connectionId: this.socket.connectionId, targetConnectionId: lock.connectionId, requestId })
+        return true
+    }
+
+    /**
+     * Release a lock created with `lockBlock()`.
+     */
+    public unlockBlock(blockId: string) {
+        if (!this._ownLocks[blockId]) return
+        delete this._ownLocks[blockId]
+        this._grantedBlockIds.delete(blockId)
+        this.clearLockExpiry(blockId, this.socket.connectionId)
+
+        this.sendLockMessage({ type: BlockUnlockedType, blockId, connectionId: this.socket.connectionId })
+        this.emit('block-unlocked', { source: 'local', connectionId: this.socket.connectionId, blockId })
+        this.notifyUsersChanged()
+    }
+
+    public get role(): CollabRole {
+        return this.config.role
+    }
+
+    /**
+     * The other users currently working on the document.
+     */
+    public get users(): CollabUser[] {
+        return Object.keys(this.externalUserLastSeenMap).map(connectionId => this.getCollabUser(connectionId))
+    }
+
+    public get socketStatus(): SocketStatus {
+        return this._socketStatus
+    }
+
+    /**
+     * Block changes made while offline that are waiting to be replayed.
+     */
+    public get outbox(): OutboxMessage[] {
+        return structuredClone(this._outbox)
+    }
+
+    /**
+     * Protocol version and capabilities of every user this client has heard from.
+     */
+    public get peers(): PeerProtocol[] {
+        return Object.values(this._peerProtocols).map(p => ({ ...p, capabilities: [...p.capabilities] }))
+    }
+
+    /**
+     * Users whose protocol version this client can not talk to. Their messages are ignored until they update.
+     */
+    public get incompatiblePeers(): PeerProtocol[] {
+        return this.peers.filter(p => !p.isCompatible)
+    }
+
+    /**
+     * Version of the last content change applied to each block, including removed blocks. Moves are versioned separately.
+     * Useful for debugging out of sync editors.
+     */
+    public get blockVersions(): Record<string, BlockVersion> {
+        return Object.fromEntries(Object.entries(this._blockVersions).map(([blockId, version]) => [blockId, { ...version }]))
+    }
     /**
      * Remove event listeners on socket and editor
      */
     public unlisten() {
-        this.socket.off()
+        removeSocketListener(this.socket, this.onSocketMessage)
+        if (this.socket.offStatusChange) {
+            this.socket.offStatusChange(this.onSocketStatusChange)
+            this._isStatusChangeRegistered = false
+        }
         this.editor.off(this.editorBlockEvent, this.onEditorBlockEvent)
         this.redactorObserver.disconnect()
+        this.layoutObserver.disconnect()
+        this.debouncedRemoteSelectionsRender.cancel()
+        this.getEditorHolder()?.classList.remove(this.CSS.layoutChanging)
         this.toolboxObserver.disconnect()
         document.removeEventListener('selectionchange', this.throttledInlineSelectionChange!)
         document.removeEventListener('visibilitychange', this.onVisibilityChange)
+        this.getEditorHolder()?.removeEventListener('mousemove', this.throttledSelectionHover)
+        this.selectionTooltipElement?.remove()
+        this.selectionTooltipElement = null
         window.removeEventListener('focus', this.onWindowFocus)
         window.removeEventListener('blur', this.onWindowBlur)
+        document.removeEventListener('scroll', this.onScroll, { capture: true })
+        document.removeEventListener('scroll', this.throttledOffscreenIndicatorsUpdate, { capture: true })
+        this.removeOffscreenIndicators()
+        this.throttledViewportChange.cancel()
+        window.removeEventListener('wheel', this.onLocalNavigation)
+        window.removeEventListener('touchmove', this.onLocalNavigation)
+        window.removeEventListener('mousedown', this.onLocalNavigation)
+        window.removeEventListener('keydown', this.onLocalNavigation, { capture: true })
+        this.stopFollowing()
         window.removeEventListener("beforeunload", this.onDisconnect, { capture: true })
+        this.getRedactor()?.removeEventListener('beforeinput', this.onBeforeInput, { capture: true })
+        this.getEditorHolder()?.removeEventListener('mousedown', this.onEditRequestMouseDown)
+        Object.keys(this._editRequests).forEach(blockId => this.clearEditRequest(blockId))
+        this.clearLockRequests()
+        this._lockArbiter = null
+        this._isLockArbiterGone = false
+        // the other users drop the other locks of this user when it disconnects
+        for (const blockId of Object.keys(this._ownLocks)) {
+            if (!this._ownLocks[blockId].pinned) delete this._ownLocks[blockId]
+        }
+        Object.values(this._lockExpiryTimeouts).forEach(timeout => window.clearTimeout(timeout))
+        this._lockExpiryTimeouts = {}
+        Object.values(this._pendingTextTimeouts).forEach(timeout => clearTimeout(timeout))
+        this._pendingTextTimeouts = {}
         this.stopPreviousExternalUserInactivityTracking()
         this.stopPreviousPresencePing()
-        this.socket.send({ type: UserDisconnectedType, connectionId: this.socket.connectionId })
+        this.stopPreviousLeaseRenewal()
+        this.clearPendingSyncRequest()
+        this.sendMessage({ type: UserDisconnectedType, connectionId: this.socket.connectionId })
 
         // remove cursors, selections and block lockings
         this.getFakeCursors({})?.forEach(cursor => cursor.remove())
         this.getFakeSelections({})?.forEach(selection => selection.remove())
+        this._remoteSelections = {}
+        this._remoteSelectionTexts = {}
+        this._remoteViewports = {}
+        this._lastSentViewport = null
         this.lockedBlocks = []
+        this.externalUserLastSeenMap = {}
+        this._externalUsers = {}
+        this._staleUserRoles = {}
+        this.notifyUsersChanged()
+        this.removePresenceBadges()
 
         this._isListening = false
     }
@@ -253,20 +1015,27 @@ export default class GroupCollab {
      * Start listening for events.
      */
     public listen() {
-        this.socket.on(this.onReceiveChange)
+        addSocketListener(this.socket, this.onSocketMessage)
+        if (!this._isStatusChangeRegistered) this.socket.onStatusChange?.(this.onSocketStatusChange)
+        this._isStatusChangeRegistered = true
         this.editor.on(this.editorBlockEvent, this.onEditorBlockEvent)
         const redactor = this.getRedactor();
         if (!redactor) {
             console.error("Could not initialize redactor observer.")
             return
         }
+        this.setupStyleElement()
         this.redactorObserver.observe(redactor, {
             childList: true,
             attributes: true,
             attributeFilter: ['class'],
             subtree: true,
         })
-        const toolboxSettingsEl = this.getEditorHolder()?.querySelector(`.${this.EditorCSS.toolbarSettings}`) ?? document.querySelector(`.${this.EditorCSS.toolbarSettings}`)
+        // window resizes, sidebars and images loading above the text move the text without a message
+        this.layoutObserver.observe(redactor)
+        const editorHolder = this.getEditorHolder()
+        if (editorHolder) this.layoutObserver.observe(editorHolder)
+        const toolboxSettingsEl = this.getEditorHolder()?.querySelector(`.${this.EditorCSS.toolbarSettings}`)
         if (toolboxSettingsEl)
             this.toolboxObserver.observe(toolboxSettingsEl, {
                 childList: true,
@@ -279,15 +1048,70 @@ export default class GroupCollab {
         if (this.throttledInlineSelectionChange)
             document.addEventListener('selectionchange', this.throttledInlineSelectionChange)
         document.addEventListener('visibilitychange', this.onVisibilityChange)
+        if (this.isCursorLabelEnabled) this.getEditorHolder()?.addEventListener('mousemove', this.throttledSelectionHover)
         window.addEventListener('focus', this.onWindowFocus)
         window.addEventListener('blur', this.onWindowBlur)
+        // captured, so scrolling inside of the scroll container of the editor is noticed
+        document.addEventListener('scroll', this.onScroll, { capture: true, passive: true })
+        if (this.config.offscreenIndicators) document.addEventListener('scroll', this.throttledOffscreenIndicatorsUpdate, { capture: true, passive: true })
+        window.addEventListener('wheel', this.onLocalNavigation, { passive: true })
+        window.addEventListener('touchmove', this.onLocalNavigation, { passive: true })
+        window.addEventListener('mousedown', this.onLocalNavigation, { passive: true })
+        window.addEventListener('keydown', this.onLocalNavigation, { capture: true })
         window.addEventListener("beforeunload", this.onDisconnect, { capture: true })
+        if (this.config.editRequests && this.config.editRequests.requestOnClick !== false)
+            this.getEditorHolder()?.addEventListener('mousedown', this.onEditRequestMouseDown)
+        if (this.config.lockArbiter) {
+            redactor.addEventListener('beforeinput', this.onBeforeInput, { capture: true })
+            if (this.config.lockArbiter.connectionId === this.socket.connectionId) this._lockArbiter = new LockArbiter(this.socket.connectionId, this.config.lockLeaseDuration)
+        }
 
         this._isListening = true
+        Object.values(this._ownLocks).forEach(lock => this.scheduleLockExpiry(lock))
         this.startExternalUserInactivityTracking()
         this.startPresencePing()
+        this.startLeaseRenewal()
+
+        this.sendMessage({ type: ProtocolHelloType, ...this.getProtocolHelloData() })
+        this.announcePresence()
 
         this.syncExternalCursors();
+        this.onViewportChange()
+        // toggling read-only renders the blocks again, a snapshot applied in the meantime would be overwritten
+        const editorReady = this.canEditBlocks ? Promise.resolve() : this.makeEditorReadOnly()
+        if (this.config.syncOnListen) editorReady.then(() => this.requestSync())
+    }
+
+    /**
+     * Subscribe to changes made by this user (`source: 'local'`) and by the other users (`source: 'remote'`), and to users joining and leaving.
+     * Handlers are kept when calling `unlisten()`.
+     */
+    public on<K extends CollabEventName>(event: K, handler: CollabEventHandler<K>) {
+        const handlers = this._eventHandlers[event] ?? new Set()
+        handlers.add(handler)
+        this._eventHandlers[event] = handlers
+    }
+
+    public off<K extends CollabEventName>(event: K, handler: CollabEventHandler<K>) {
+        this._eventHandlers[event]?.delete(handler)
+    }
+
+    /**
+     * Encrypt the next messages with a new key. Previous keys still decrypt messages of users that did not switch yet, until they are retired.
+     */
+    public rotateEncryptionKey(key: EncryptionKey) {
+        if (!this._encryptionKeys.length) {
+            console.error('Encryption is not enabled, set `encryption` in the config to use key rotation.')
+            return
+        }
+        this._encryptionKeys = [key, ...this._encryptionKeys.filter(k => k.id !== key.id)]
+    }
+
+    /**
+     * Stop accepting messages encrypted with an old key, once every user switched to the new one. The current key can not be retired.
+     */
+    public retireEncryptionKey(keyId: string) {
+        this._encryptionKeys = this._encryptionKeys.filter((k, index) => index === 0 || k.id !== keyId)
     }
 
     /**
@@ -298,7 +1122,68 @@ export default class GroupCollab {
 
         this.getFakeCursors({})?.forEach(cursor => cursor.remove())
         this.getFakeSelections({})?.forEach(selection => selection.remove())
-        this.socket.send({ type: UserInlineSelectionAsk })
+        this._remoteSelections = {}
+        this._remoteSelectionTexts = {}
+        this.sendMessage({ type: UserInlineSelectionAsk })
+    }
+
+    public get followedUser(): string | null {
+        return this._followedConnectionId
+    }
+
+    /**
+     * Keep the caret or viewport of another user in view, until `stopFollowing()` is called or this user types or scrolls.
+     */
+    public followUser(connectionId: string) {
+        if (!this.isListening || connectionId === this.socket.connectionId) return
+        if (!(connectionId in this.externalUserLastSeenMap)) {
+            console.warn(`Can not follow unknown user "${connectionId}"`)
+            return
+        }
+
+        const isAlreadyFollowed = this._followedConnectionId === connectionId
+        this._followedConnectionId = connectionId
+        if (!isAlreadyFollowed) this.emit('following-change', { connectionId })
+        this.scrollToUser(connectionId)
+    }
+
+    public stopFollowing() {
+        if (this._followedConnectionId === null) return
+        this._followedConnectionId = null
+        this.emit('following-change', { connectionId: null })
+    }
+
+    /**
+     * Scroll to the caret of another user, or to the part of the document the user sees if the caret is not known.
+     * @returns false if nothing is known about the position of the user yet
+     */
+    public scrollToUser(connectionId: string): boolean {
+        return this.scrollToRemoteCaret(connectionId) || this.scrollToRemoteViewport(connectionId)
+    }
+
+    /**
+     * Ask the other users for a full document snapshot (blocks, lock table and block versions) and replace the local document with the first answer received.
+     * This is already called on `listen()` when `syncOnListen` is enabled, but should also be called after your socket reconnects.
+     */
+    public requestSync() {
+        if (!this.isListening) return
+
+        this.requestSnapshot((snapshot) => {
+            if (snapshot) this.applyDocumentSnapshot(snapshot)
+        })
+    }
+
+    /**
+     * Build the snapshot that is sent to users asking for a sync. Useful if your server stores snapshots to answer sync requests itself.
+     */
+    public async getDocumentSnapshot(): Promise<DocumentSnapshot> {
+        const data = await this.editor.save()
+
+        return {
+            data,
+            lockedBlocks: this.getLockTable(),
+            blockVersions: { ...this._blockVersions },
+        }
     }
 
     //#endregion
@@ -309,8 +1194,15 @@ export default class GroupCollab {
             selected: 'cdx-realtime-block--selected',
             inlineCursor: 'cdx-realtime-inline-cursor',
             inlineSelection: 'cdx-realtime-inline-selection',
+            inlineCursorLabel: 'cdx-realtime-inline-cursor__label',
+            inlineSelectionTooltip: 'cdx-realtime-inline-selection__tooltip',
             deletePending: "cdx-realtime-block--delete-pending",
             lockedBlock: "cdx-realtime-block--locked",
+            layoutChanging: 'cdx-realtime-layout-changing',
+            offscreenIndicators: 'cdx-realtime-offscreen-indicators',
+            offscreenIndicator: 'cdx-realtime-offscreen-indicator',
+            presenceBadges: 'cdx-realtime-presence-badges',
+            presenceBadge: 'cdx-realtime-presence-badge',
         }
     }
     private get EditorCSS() {
@@ -340,6 +1232,7 @@ export default class GroupCollab {
         const isFocused = target.classList.contains(this.EditorCSS.focused)
         const blockId = target.getAttribute(this.blockIdAttributeName)
         if (!blockId) return
+        if (this.config.role === 'viewer') return
         // we need to save the current selected & focus state for each block or else we are sending too much data through socket
         if (this.localBlockStates[blockId]?.has('selected') != isSelected) {
             if (this.ignoreEvents[blockId]?.has(UserBlockSelectionChangeType)) return
@@ -348,11 +1241,12 @@ export default class GroupCollab {
             if (isSelected) this.localBlockStates[blockId].add('selected')
             else this.localBlockStates[blockId].delete('selected')
 
-            this.socket.send({
+            this.sendMessage({
                 type: UserBlockSelectionChangeType,
                 blockId,
                 isSelected,
             })
+            this.emit('block-selection-change', { source: 'local', blockId, isSelected })
         }
 
         // Focused class doesnt have any important styles fo i wont implement this now
@@ -369,6 +1263,7 @@ export default class GroupCollab {
     private handleToolboxMutation(mutation: MutationRecord): void {
         const { target } = mutation
         if (!(target instanceof HTMLElement)) return
+        if (!this.canEditBlocks) return
 
         //? This might not work for all editor versions
         const isToolbarClosing = target.innerHTML === '';
@@ -395,36 +1290,40 @@ export default class GroupCollab {
             if (isDeletePending) this.localBlockStates[blockId].add('deleting')
             else this.localBlockStates[blockId].delete('deleting')
 
-            this.socket.send({
+            this.sendMessage({
                 type: UserBlockDeletionChangeType,
                 blockId,
                 isDeletePending
             })
+            this.emit('block-deletion-change', { source: 'local', blockId, isDeletePending })
         }
     }
 
     //#region Inline Selection Change Handling
     private onInlineSelectionChange = (e?: Event) => {
+        if (this.config.role === 'viewer') return
         const data = this.getSelectionAsData()
         if (!data) return
-        const blockId = data.blockId
+        const { anchor, focus } = data
+        this.emit('inline-selection-change', { source: 'local', connectionId: data.connectionId, anchor, focus })
         // this makes blocks be at least up to date before trying to set the cursor (which uses selections on actual dom elements)
-        const blockIsLocked = blockId === this._currentEditorLockingBlockId
+        const blockIsLocked = [anchor.blockId, focus.blockId].includes(this._currentEditorLockingBlockId ?? '')
         if (!blockIsLocked) {
-            this.socket.send(data);
+            this.sendMessage(data);
             return;
         }
         setTimeout(() => {
-            this.socket.send(data)
+            this.sendMessage(data)
         }, 40)
     }
 
     private onDisconnect = (e: Event) => {
-        this.socket.send({ type: UserDisconnectedType, connectionId: this.socket.connectionId })
+        this.sendMessage({ type: UserDisconnectedType, connectionId: this.socket.connectionId })
     }
 
     private onVisibilityChange = () => {
         if (!this.isListening) return
+        this.announcePresence()
         if (document.visibilityState !== 'visible') return
 
         this.syncExternalCursors()
@@ -433,6 +1332,7 @@ export default class GroupCollab {
 
     private onWindowFocus = () => {
         if (!this.isListening) return
+        this.announcePresence()
 
         this.syncExternalCursors()
         this.onInlineSelectionChange()
@@ -440,63 +1340,614 @@ export default class GroupCollab {
 
     private onWindowBlur = () => {
         if (!this.isListening) return
+        this.announcePresence()
         this.getFakeSelections({ connectionId: this.socket.connectionId })?.forEach(selection => selection.remove())
         this.getFakeCursors({ connectionId: this.socket.connectionId })?.forEach(cursor => cursor.remove())
     }
 
-    //#region Receive Changes Handling
-    private onReceiveChange = (response: MessageData) => {
-        this.markExternalUserSeen(response)
-        switch (response.type) {
-            case 'block-added': {
-                const { index, block } = response
-                this.addBlockToIgnoreListUntilNextRender(block.id, response.type)
-                this.editor.blocks.insert(block.tool, block.data, null, index, false, false, block.id)
-                const shouldHaveInternalState = this.config.toolsWithDataCheck.includes(block.tool)
-                if (shouldHaveInternalState) {
-                    this._customToolsInternalState[block.id] = { data: block.data, tunes: (block as any).tunes ?? {} };
-                }
-                break
+    //#region Remote Cursor Rendering
+    /**
+     * Draw the cursor or selection of a remote user from its logical position.
+     * @param isRelayout the user did not move, only the layout of the editor changed
+     */
+    private renderRemoteSelection({ anchor, focus, connectionId, color, selectionColor, userName, userAvatarUrl }: RemoteInlineSelection, isRelayout = false) {
+        const isSelection = anchor.blockId !== focus.blockId || anchor.inputIndex !== focus.inputIndex || anchor.offset !== focus.offset
+        const isReset = isSelection
+        if (isReset) {
+            const oldCursors = this.getFakeCursors({ connectionId })
+            oldCursors?.forEach(cursor => cursor.remove())
+        }
+
+        const editorHolder = this.getEditorHolder()
+        if (!editorHolder) return
+        const anchorPosition = this.getDOMPositionFromTextPosition(anchor)
+        const focusPosition = this.getDOMPositionFromTextPosition(focus)
+        const range = anchorPosition && focusPosition && this.createOrderedRange(anchorPosition, focusPosition)
+        if (!range || !focusPosition) {
+            // e.g. the block was removed, the old geometry would point at another block now
+            if (isRelayout) this.removeRemoteSelectionElements(connectionId)
+            return
+        }
+        const parentElementRect = editorHolder.getBoundingClientRect()
+
+        // remove existing selection for this user
+        this.getFakeSelections({ connectionId })?.forEach((sel) => sel.remove())
+        if (isSelection) {
+            const labelUser = this.getCursorLabelUser(connectionId, { userName, userAvatarUrl, color })
+
+            // Adjust rects to be relative to editorHolder
+            for (const { blockId: rectBlockId, rect } of this.getSelectionRects(range)) {
+                const selectionElement = this.createSelectionElement({ blockId: rectBlockId, connectionId })
+                // Adjust rect position relative to parentElement
+                selectionElement.style.top = `${rect.top - parentElementRect.top}px`
+                selectionElement.style.left = `${rect.left - parentElementRect.left}px`
+                selectionElement.style.width = `${rect.width}px`;
+                selectionElement.style.height = `${rect.height}px`;
+                if (selectionColor) selectionElement.style.setProperty('--realtime-inline-selection-color', selectionColor)
+                if (labelUser.name) selectionElement.setAttribute(this.userNameAttributeName, labelUser.name)
+                editorHolder.insertAdjacentElement("beforeend", selectionElement);
+                if (!isRelayout) this.addBlockToIgnoreListUntilNextRender(rectBlockId, 'block-changed');
             }
-            case 'block-changed': {
-                const { index, block } = response
-                this.addBlockToIgnoreListUntilNextRender(block.id, response.type)
-                const shouldHaveInternalState = this.config.toolsWithDataCheck.includes(block.tool)
-                if (shouldHaveInternalState) {
-                    this._customToolsInternalState[block.id] = { data: block.data, tunes: (block as any).tunes ?? {} };
+        } else {
+            let cursor: HTMLDivElement;
+            if (isReset)
+                cursor = this.createFakeCursor({ connectionId, blockId: focus.blockId })
+            else {
+                cursor = this.getFakeCursors({ connectionId })?.item(0) as HTMLDivElement;
+                if (!cursor) cursor = this.createFakeCursor({ connectionId, blockId: focus.blockId })
+                else if (!isRelayout) {
+                    // reset animation state
+                    cursor.style.animation = 'none'
+                    cursor.offsetHeight // trigger reflow
+                    cursor.style.animation = ''
                 }
-                const customClassList = this.getDOMBlockById(block.id)?.classList
+            }
+            // the cursor might have moved to another block
+            cursor.setAttribute(this.inlineFakeCursorAttributeName, focus.blockId)
+            const rect = range.getClientRects().item(0)
+            if (!rect) return;
+            const selectedElement = focusPosition.node instanceof HTMLElement ? focusPosition.node : focusPosition.node.parentElement
+            if (!(selectedElement instanceof HTMLElement)) return
+
+            //This is used to resize the height of the selection if users have different font sizes/screen zoom in/out s
+            const { fontSize } = window.getComputedStyle(selectedElement)
+
+            cursor.style.height = fontSize
+            cursor.style.top = `${rect.top - parentElementRect.top}px`
+            cursor.style.left = `${rect.left - parentElementRect.left}px`
+
+            const { cursorClass } = this.config.overrideStyles ?? {}
+            if (color) cursor.style.setProperty('--realtime-inline-cursor-color', color)
+            if (cursorClass) cursor.classList.add(...cursorClass.split(' '))
+            this.renderCursorLabel(cursor, this.getCursorLabelUser(connectionId, { userName, userAvatarUrl, color }))
+
+            if (!editorHolder.contains(cursor)) editorHolder.insertAdjacentElement("beforeend", cursor)
+        }
+    }
 
-                const blockApi = this.editor.blocks.getById(block.id)
-                if (!blockApi) return;
+    /**
+     * Offsets are in characters, so text inserted or removed before a remote cursor since it was received would move it to other characters
+     */
+    private shiftRemoteSelection(connectionId: string) {
+        const selection = this._remoteSelections[connectionId]
+        const texts = this._remoteSelectionTexts[connectionId]
+        if (!selection || !texts) return
+
+        const shiftPosition = (position: InlineSelectionPosition, oldText: string | null) => {
+            const newText = this.getInputAtPosition(position)?.textContent ?? null
+            if (oldText === null || newText === null || oldText === newText) return { position, text: newText }
+            return { position: { ...position, offset: this.shiftTextOffset(position.offset, oldText, newText) }, text: newText }
+        }
+        const anchor = shiftPosition(selection.anchor, texts.anchor)
+        const focus = shiftPosition(selection.focus, texts.focus)
+        this._remoteSelections[connectionId] = { ...selection, anchor: anchor.position, focus: focus.position }
+        this._remoteSelectionTexts[connectionId] = { anchor: anchor.text, focus: focus.text }
+    }
 
-                this.editor.blocks
-                    .update(block.id, block.data)
-                    .catch((e) => {
-                        if (e.message === `Block with id "${block.id}" not found`) {
-                            this.addBlockToIgnoreListUntilNextRender(block.id, 'block-added')
-                            this.editor.blocks.insert(block.tool, block.data, null, index, false, false, block.id)
-                        }
-                    })
-                    .then(() => {
-                        const lockedBlock = this.lockedBlocks.find(b => b.blockId === block.id && b.connectionId !== this.socket.connectionId)
-                        if (lockedBlock) {
-                            this.renderLockedBlocks([], [lockedBlock])
-                        }
-
-                        // some blocks when being selected emit a block-changed event
-                        if (customClassList?.contains(this.CSS.selected)) {
-                            const domBlock = this.getDOMBlockById(block.id);
-                            if (!domBlock) return;
-                            domBlock.classList.add(this.CSS.selected)
-                            if (this.config.overrideStyles?.selectedClass)
-                                domBlock.classList.add(this.config.overrideStyles.selectedClass)
-                        }
-                    })
+    private removeRemoteSelectionElements(connectionId: string) {
+        this.getFakeSelections({ connectionId })?.forEach(selection => selection.remove())
+        this.getFakeCursors({ connectionId })?.forEach(cursor => cursor.remove())
+    }
+
+    private onLayoutChange = () => {
+        if (!this.isListening) return
+        // the geometry is wrong until the layout settles, hiding it avoids cursors jumping around while resizing
+        this.getEditorHolder()?.classList.add(this.CSS.layoutChanging)
+        this.debouncedRemoteSelectionsRender()
+        this.throttledViewportChange()
+    }
+
+    private debouncedRemoteSelectionsRender = debounce(100, () => {
+        this.getEditorHolder()?.classList.remove(this.CSS.layoutChanging)
+        if (!this.isListening) return
+        Object.keys(this._remoteSelections).forEach(connectionId => this.shiftRemoteSelection(connectionId))
+        Object.values(this._remoteSelections).forEach(selection => this.renderRemoteSelection(selection, true))
+        this.updateOffscreenIndicators()
+        this.updatePresenceBadges()
+    })
+
+    //#region Following
+    private onViewportChange = () => {
+        if (!this.isListening || document.visibilityState !== 'visible') return
+        const viewport = this.getViewport()
+        const hasChanged = viewport.blockId !== this._lastSentViewport?.blockId || Math.abs(viewport.blockOffset - this._lastSentViewport.blockOffset) >= 0.01
+        if (!hasChanged) return
+
+        this._lastSentViewport = viewport
+        this.sendMessage({ type: UserViewportChangeType, connectionId: this.socket.connectionId, ...viewport })
+    }
+
+    private throttledViewportChange = throttle(200, this.onViewportChange)
+
+    // other scroll containers on the page do not move the editor
+    private onScroll = (e: Event) => {
+        const redactor = this.getRedactor()
+        const isAroundEditor = e.target === document || (e.target instanceof Node && Boolean(redactor) && e.target.contains(redactor))
+        if (!redactor || !isAroundEditor) return
+
+        const scrollParent = this.getScrollParent(redactor)
+        const isPageScroll = scrollParent === document.scrollingElement || scrollParent === document.documentElement
+        if (e.target === scrollParent || (isPageScroll && e.target === document)) this.throttledViewportChange()
+    }
+
+    // scrolling by the plugin does not fire these, so they only stop following when the user navigates
+    private onLocalNavigation = (e: Event) => {
+        if (this._followedConnectionId === null) return
+        if (e instanceof KeyboardEvent) {
+            const isNavigationKey = ['PageUp', 'PageDown', 'Home', 'End', 'ArrowUp', 'ArrowDown'].includes(e.key)
+            const isTypingInEditor = e.target instanceof Node && Boolean(this.getEditorHolder()?.contains(e.target))
+            if (!isNavigationKey && !isTypingInEditor) return
+        }
+        if (e instanceof MouseEvent && !(e instanceof WheelEvent)) {
+            // a middle click starts autoscrolling, a click on a scrollbar drags it, other clicks do not scroll
+            const target = e.target instanceof Element ? e.target : null
+            const hasScrollbar = target !== null && (target.scrollHeight > target.clientHeight || target.scrollWidth > target.clientWidth)
+            const isScrollbarClick = hasScrollbar && (e.offsetX >= target.clientWidth || e.offsetY >= target.clientHeight)
+            if (e.button !== 1 && !isScrollbarClick) return
+        }
+        this.stopFollowing()
+    }
+
+    private getViewport(): UserViewport {
+        const blocks = Array.from(this.getRedactor()?.querySelectorAll<HTMLElement>(`.${this.EditorCSS.baseBlock}[${this.blockIdAttributeName}]`) ?? [])
+        const scrollParent = blocks[0] && this.getScrollParent(blocks[0])
+        if (!scrollParent) return { blockId: null, blockOffset: 0 }
+
+        const viewportTop = this.getViewportBounds(scrollParent).top
+        const topBlock = blocks.find(block => block.getBoundingClientRect().bottom > viewportTop) ?? blocks[blocks.length - 1]
+        const { top, height } = topBlock.getBoundingClientRect()
+        const blockOffset = height > 0 ? Math.min(1, Math.max(0, (viewportTop - top) / height)) : 0
+        return { blockId: topBlock.getAttribute(this.blockIdAttributeName), blockOffset }
+    }
+
+    private scrollToRemoteViewport(connectionId: string): boolean {
+        const viewport = this._remoteViewports[connectionId]
+        const block = viewport?.blockId ? this.getDOMBlockById(viewport.blockId) : null
+        if (!viewport || !block) return false
+
+        const scrollParent = this.getScrollParent(block)
+        const { top, height } = block.getBoundingClientRect()
+        scrollParent.scrollBy({ top: top + height * viewport.blockOffset - this.getViewportBounds(scrollParent).top, behavior: 'smooth' })
+        return true
+    }
+
+    private scrollToRemoteCaret(connectionId: string): boolean {
+        const caretElement = this.getFakeCursors({ connectionId })?.item(0) ?? this.getFakeSelections({ connectionId })?.item(0)
+        if (caretElement) {
+            caretElement.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+            return true
+        }
+
+        // e.g. the caret is in a block that is not rendered as text
+        const focusBlockId = this._remoteSelections[connectionId]?.focus.blockId
+        const block = focusBlockId ? this.getDOMBlockById(focusBlockId) : null
+        if (!block) return false
+        block.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+        return true
+    }
+
+    private getScrollParent(element: HTMLElement): HTMLElement {
+        let parent = element.parentElement
+        while (parent && parent !== document.body) {
+            const { overflowY } = window.getComputedStyle(parent)
+            const isScrollable = (overflowY === 'auto' || overflowY === 'scroll') && parent.scrollHeight > parent.clientHeight
+            if (isScrollable) return parent
+            parent = parent.parentElement
+        }
+        return (document.scrollingElement as HTMLElement | null) ?? document.documentElement
+    }
+
+    // in client coordinates, like getBoundingClientRect
+    private getViewportBounds(scrollParent: HTMLElement): { top: number; bottom: number } {
+        const isPageScroll = scrollParent === document.scrollingElement || scrollParent === document.documentElement
+        if (isPageScroll) return { top: 0, bottom: window.innerHeight }
+        const { top, bottom } = scrollParent.getBoundingClientRect()
+        return { top, bottom }
+    }
+
+    //#region Offscreen Indicators
+    private updateOffscreenIndicators() {
+        if (!this.config.offscreenIndicators || !this.isListening) return
+        const editorHolder = this.getEditorHolder()
+        if (!editorHolder) return
+        const indicatorElements = this.getOffscreenIndicatorElements(editorHolder)
+
+        const viewport = this.getViewportBounds(this.getScrollParent(editorHolder))
+        // users with a selection have no cursor element, their first selection rect is used instead
+        const caretElements: Record<string, HTMLElement> = {}
+        this.getFakeSelections({})?.forEach(selection => {
+            const connectionId = selection.getAttribute(this.connectionIdAttributeName)
+            if (connectionId && !caretElements[connectionId]) caretElements[connectionId] = selection
+        })
+        this.getFakeCursors({})?.forEach(cursor => {
+            const connectionId = cursor.getAttribute(this.connectionIdAttributeName)
+            if (connectionId && cursor instanceof HTMLElement) caretElements[connectionId] = cursor
+        })
+
+        const existingIndicators = Array.from(editorHolder.querySelectorAll<HTMLButtonElement>(`.${this.CSS.offscreenIndicator}`))
+        const offscreenConnectionIds = new Set<string>()
+        for (const [connectionId, caretElement] of Object.entries(caretElements)) {
+            const { top, bottom } = caretElement.getBoundingClientRect()
+            const direction = bottom < viewport.top ? 'above' : top > viewport.bottom ? 'below' : null
+            if (!direction) continue
+            offscreenConnectionIds.add(connectionId)
+
+            const indicator = existingIndicators.find(i => i.getAttribute(this.connectionIdAttributeName) === connectionId) ?? this.createOffscreenIndicator(connectionId)
+            this.renderOffscreenIndicator(indicator, direction)
+            // only moved when the direction changed, moving it while it is clicked would swallow the click
+            if (indicator.parentElement !== indicatorElements[direction]) indicatorElements[direction].appendChild(indicator)
+        }
+        for (const indicator of existingIndicators) {
+            if (!offscreenConnectionIds.has(indicator.getAttribute(this.connectionIdAttributeName) ?? '')) indicator.remove()
+        }
+    }
+
+    private throttledOffscreenIndicatorsUpdate = throttle(100, () => this.updateOffscreenIndicators())
+
+    private getOffscreenIndicatorElements(editorHolder: HTMLElement) {
+        if (this.offscreenIndicatorElements && editorHolder.contains(this.offscreenIndicatorElements.above)) return this.offscreenIndicatorElements
+
+        const createContainer = (direction: 'above' | 'below') => {
+            const container = document.createElement('div')
+            container.classList.add(this.CSS.offscreenIndicators, `${this.CSS.offscreenIndicators}--${direction}`)
+            return container
+        }
+        this.offscreenIndicatorElements = { above: createContainer('above'), below: createContainer('below') }
+        // sticky, so they stay at the edges of the visible part of the editor
+        editorHolder.insertAdjacentElement('afterbegin', this.offscreenIndicatorElements.above)
+        editorHolder.insertAdjacentElement('beforeend', this.offscreenIndicatorElements.below)
+        return this.offscreenIndicatorElements
+    }
+
+    private createOffscreenIndicator(connectionId: string) {
+        const indicator = document.createElement('button')
+        indicator.type = 'button'
+        indicator.classList.add(this.CSS.offscreenIndicator)
+        indicator.setAttribute(this.connectionIdAttributeName, connectionId)
+        indicator.addEventListener('click', () => this.scrollToUser(connectionId))
+        return indicator
+    }
+
+    private renderOffscreenIndicator(indicator: HTMLButtonElement, direction: 'above' | 'below') {
+        const connectionId = indicator.getAttribute(this.connectionIdAttributeName) ?? ''
+        const { name, color } = this.getCursorLabelUser(connectionId, this._remoteSelections[connectionId] ?? { color: '' })
+        const text = `${direction === 'above' ? '↑' : '↓'} ${name ? this.getInitials(name) : ''}`.trim()
+        if (indicator.textContent !== text) indicator.textContent = text
+        indicator.title = name ? `${name} is working ${direction}` : `Someone is working ${direction}`
+        if (color) indicator.style.setProperty('--realtime-inline-cursor-color', color)
+    }
+
+    //#region Presence Badges
+    private updatePresenceBadges() {
+        if (!this.config.presenceBadges || !this.isListening) return
+        const editorHolder = this.getEditorHolder()
+        if (!editorHolder) return
+
+        // lock owners first, they are the ones editing the block
+        const blockUsers: Record<string, { connectionId: string; lock?: LockedBlock }[]> = {}
+        for (const lock of this._lockedBlocks) {
+            blockUsers[lock.blockId] = [...(blockUsers[lock.blockId] ?? []), { connectionId: lock.connectionId, lock }]
+        }
+        for (const connectionId of Object.keys(this.externalUserLastSeenMap)) {
+            const currentBlockId = this._externalUsers[connectionId]?.currentBlockId
+            if (!currentBlockId || blockUsers[currentBlockId]?.some(u => u.connectionId === connectionId)) continue
+            blockUsers[currentBlockId] = [...(blockUsers[currentBlockId] ?? []), { connectionId }]
+        }
+
+        const existingBadges = Array.from(editorHolder.querySelectorAll<HTMLElement>(`[${this.presenceBlockAttributeName}]`))
+        const holderRect = editorHolder.getBoundingClientRect()
+        for (const [blockId, users] of Object.entries(blockUsers)) {
+            const blockContent = this.getDOMBlockById(blockId)?.querySelector(`.${this.EditorCSS.blockContent}`)
+            if (!blockContent) continue
+
+            let badges = existingBadges.find(b => b.getAttribute(this.presenceBlockAttributeName) === blockId)
+            if (!badges) {
+                badges = document.createElement('div')
+                badges.classList.add(this.CSS.presenceBadges)
+                badges.setAttribute(this.presenceBlockAttributeName, blockId)
+                editorHolder.insertAdjacentElement('beforeend', badges)
+            }
+            this.renderPresenceBadges(badges, users)
+
+            const contentRect = blockContent.getBoundingClientRect()
+            badges.style.top = `${contentRect.top - holderRect.top}px`
+            badges.style.left = `${contentRect.left - holderRect.left}px`
+        }
+        for (const badges of existingBadges) {
+            const blockId = badges.getAttribute(this.presenceBlockAttributeName) ?? ''
+            if (!blockUsers[blockId] || !this.getDOMBlockById(blockId)) badges.remove()
+        }
+    }
+
+    private throttledPresenceBadgesUpdate = throttle(100, () => this.updatePresenceBadges())
+
+    private renderPresenceBadges(badges: HTMLElement, users: { connectionId: string; lock?: LockedBlock }[]) {
+        const badgeUsers = users.map(({ connectionId, lock }) => ({
+            ...this.getCursorLabelUser(connectionId, this._remoteSelections[connectionId] ?? { color: '' }),
+            isLocking: Boolean(lock),
+            lockReason: lock?.reason ?? '',
+        }))
+        // only rendered again if something changed, otherwise the avatars would flicker
+        const badgesKey = JSON.stringify(badgeUsers)
+        if (badges.getAttribute(this.presenceKeyAttributeName) === badgesKey) return
+        badges.setAttribute(this.presenceKeyAttributeName, badgesKey)
+        badges.replaceChildren()
+
+        for (const { name, avatarUrl, color, isLocking, lockReason } of badgeUsers) {
+            const badge = document.createElement(avatarUrl ? 'img' : 'div')
+            badge.classList.add(this.CSS.presenceBadge)
+            if (isLocking) badge.classList.add(`${this.CSS.presenceBadge}--locking`)
+            if (badge instanceof HTMLImageElement) {
+                badge.src = avatarUrl!
+                badge.alt = name
+            } else badge.textContent = name ? this.getInitials(name) : '?'
+            const userName = name || 'Someone'
+            badge.title = isLocking ? `${userName} is editing${lockReason ? `: ${lockReason}` : ''}` : userName
+            if (color) badge.style.setProperty('--realtime-inline-cursor-color', color)
+            badges.appendChild(badge)
+        }
+    }
+
+    private removePresenceBadges() {
+        this.throttledPresenceBadgesUpdate.cancel()
+        this.getEditorHolder()?.querySelectorAll(`[${this.presenceBlockAttributeName}]`).forEach(badges => badges.remove())
+    }
+
+    private removeOffscreenIndicators() {
+        this.throttledOffscreenIndicatorsUpdate.cancel()
+        this.offscreenIndicatorElements?.above.remove()
+        this.offscreenIndicatorElements?.below.remove()
+        this.offscreenIndicatorElements = null
+    }
+
+    //#region Cursor Labels
+    private get isCursorLabelEnabled() {
+        return (this.config.cursor?.label ?? 'none') !== 'none'
+    }
+
+    private getCursorLabelUser(connectionId: string, { userName, userAvatarUrl, color }: Pick<UserInlineSelectionData, 'userName' | 'userAvatarUrl' | 'color'>): CursorLabelUser {
+        // users announce their metadata separately as well, in case the selection message does not carry it
+        const announcedUser = this._externalUsers[connectionId]?.user ?? {}
+        return {
+            connectionId,
+            name: userName || announcedUser.name || '',
+            avatarUrl: userAvatarUrl || announcedUser.avatarUrl || null,
+            color: color || announcedUser.color || '',
+        }
+    }
+
+    private renderCursorLabel(cursor: HTMLElement, user: CursorLabelUser) {
+        const labelMode = this.config.cursor?.label ?? 'none'
+        const existingLabel = cursor.querySelector(`[${this.cursorLabelAttributeName}]`)
+        if (labelMode === 'none' || !user.name) {
+            existingLabel?.remove()
+            return
+        }
+        // the cursor is reused while the user types, only render the label again if something changed
+        const labelKey = JSON.stringify(user)
+        if (existingLabel?.getAttribute(this.cursorLabelAttributeName) === labelKey) return
+        existingLabel?.remove()
+
+        let label: HTMLElement
+        if (this.config.cursor?.renderLabel) label = this.config.cursor.renderLabel({ ...user })
+        else {
+            label = document.createElement('div')
+            label.classList.add(this.CSS.inlineCursorLabel)
+            label.textContent = labelMode === 'initials' ? this.getInitials(user.name) : user.name
+        }
+        label.setAttribute(this.cursorLabelAttributeName, labelKey)
+        cursor.insertAdjacentElement('beforeend', label)
+    }
+
+    private getInitials(name: string) {
+        return name
+            .split(/\s+/)
+            .filter(Boolean)
+            .slice(0, 2)
+            .map(word => word[0].toUpperCase())
+            .join('')
+    }
+
+    // selections do not receive pointer events, so hovering is detected from their rects
+    private throttledSelectionHover = throttle(50, (e: MouseEvent) => {
+        const editorHolder = this.getEditorHolder()
+        if (!editorHolder) return
+
+        const hoveredSelection = Array.from(this.getFakeSelections({}) ?? []).find((selection) => {
+            const rect = selection.getBoundingClientRect()
+            return e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom
+        })
+        const name = hoveredSelection?.getAttribute(this.userNameAttributeName)
+        if (!hoveredSelection || !name) {
+            this.selectionTooltipElement?.remove()
+            this.selectionTooltipElement = null
+            return
+        }
+
+        if (!this.selectionTooltipElement) {
+            this.selectionTooltipElement = document.createElement('div')
+            this.selectionTooltipElement.classList.add(this.CSS.inlineSelectionTooltip)
+        }
+        const tooltip = this.selectionTooltipElement
+        const holderRect = editorHolder.getBoundingClientRect()
+        const selectionRect = hoveredSelection.getBoundingClientRect()
+        tooltip.textContent = name
+        tooltip.style.top = `${selectionRect.top - holderRect.top}px`
+        tooltip.style.left = `${e.clientX - holderRect.left}px`
+        const selectionColor = hoveredSelection.style.getPropertyValue('--realtime-inline-selection-color')
+        if (selectionColor) tooltip.style.setProperty('--realtime-inline-selection-color', selectionColor)
+        if (!editorHolder.contains(tooltip)) editorHolder.insertAdjacentElement('beforeend', tooltip)
+    })
+
+    //#region Receive Changes Handling
+    private onSocketMessage = (data: unknown) => {
+        // the readable document id of encrypted messages is checked as well, other documents might use other keys
+        if (!this.isMessageForThisDocument(data)) return
+        if (!this._encryptionKeys.length && !this.config.authentication) {
+            this.handleReceivedData(data)
+            return
+        }
+
+        const keys = this._encryptionKeys
+        const { authentication } = this.config
+        const replayGuard = this._replayGuard
+        this._receiveQueue = this._receiveQueue.then(async () => {
+            let openedData = data
+            let signerId: string | undefined
+            if (keys.length) {
+                try {
+                    openedData = await decryptMessage(openedData, keys)
+                } catch (error) {
+                    this.reportInvalidMessage(data, (error as Error).message)
+                    return
+                }
+            }
+            if (authentication && replayGuard) {
+                try {
+                    const verified = await verifyMessage(openedData, authentication, replayGuard)
+                    openedData = verified.message
+                    signerId = verified.connectionId
+                } catch (error) {
+                    const reason = (error as Error).message
+                    if (this.config.onForgedMessage) this.config.onForgedMessage(openedData, reason)
+                    else console.warn(`Ignored forged realtime collab message: ${reason}`, openedData)
+                    return
+                }
+            }
+            // the readable document id could have been changed, the opened message carries the authenticated one
+            if (!this.isMessageForThisDocument(openedData)) return
+            if (this.isListening) this.handleReceivedData(openedData, signerId)
+        })
+    }
+
+    private isMessageForThisDocument(data: unknown) {
+        const documentId = typeof data === 'object' && data !== null ? (data as { documentId?: unknown }).documentId : undefined
+        return documentId === this.config.documentId
+    }
+
+    /**
+     * @param signerId the verified sender, only with `authentication`
+     */
+    private handleReceivedData(data: unknown, signerId?: string) {
+        const invalidReason = validateMessage(data)
+        if (invalidReason) {
+            // newer users might send message types this client does not know yet
+            const senderId = this.getMessageSender(data)
+            const isFromNewerPeer = senderId !== null && (this._peerProtocols[senderId]?.protocolVersion ?? 0) > PROTOCOL_VERSION
+            if (isFromNewerPeer && invalidReason.startsWith('Unknown message type')) return
+
+            this.reportInvalidMessage(data, invalidReason)
+            return
+        }
+
+        const hasIncomingMiddleware = Boolean(this.config.middleware?.incoming?.length)
+        this.runMiddleware('incoming', data as MessageData, (message) => {
+            // middleware might have changed or created the message
+            const outputInvalidReason = hasIncomingMiddleware ? validateMessage(message) : null
+            if (outputInvalidReason) {
+                this.reportInvalidMessage(message, outputInvalidReason)
+                return
+            }
+            // delayed messages can arrive after unlisten()
+            if (this.isListening) this.handleIncomingMessage(message, signerId)
+        })
+    }
+
+    private reportInvalidMessage(data: unknown, reason: string) {
+        if (this.config.onInvalidMessage) this.config.onInvalidMessage(data, reason)
+        else console.warn(`Ignored invalid realtime collab message: ${reason}`, data)
+    }
+
+    private handleIncomingMessage(message: MessageData, signerId?: string) {
+        const isProtocolMessage = message.type === ProtocolHelloType || message.type === ProtocolWelcomeType
+        const isLockArbiterAnswer = LockArbiterAnswerTypes.includes(message.type)
+        const senderId = this.getMessageSender(message)
+        if (!isProtocolMessage && !isLockArbiterAnswer && senderId && senderId !== this.socket.connectionId) {
+            // users that never said hello are older than the protocol handshake
+            if (!this._peerProtocols[senderId])
+                this.registerPeerProtocol({ connectionId: senderId, protocolVersion: 0, minProtocolVersion: 0, capabilities: [] }, true)
+            if (!this._peerProtocols[senderId].isCompatible) return
+        }
+
+        const claimedAuthor = this.getBlockOperationAuthor(message)
+        // the claimed author can be forged, the signer can not
+        const blockOperationAuthor = claimedAuthor && (signerId ?? claimedAuthor)
+        if (blockOperationAuthor && blockOperationAuthor !== this.socket.connectionId) {
+            const { role } = this.getExternalUser(blockOperationAuthor)
+            if (role !== 'editor') {
+                console.warn(`Ignored "${message.type}" message from ${role} "${blockOperationAuthor}"`)
+                return
+            }
+        }
+
+        const isUnknownUser = Boolean(senderId) && !isLockArbiterAnswer && !(senderId! in this.externalUserLastSeenMap)
+        this.onReceiveChange(message)
+        if (ReflowingMessageTypes.includes(message.type)) {
+            // the sender's cursor message might have arrived before its change and already includes it, it sends a new one anyway
+            if (senderId) delete this._remoteSelectionTexts[senderId]
+            this.debouncedRemoteSelectionsRender()
+        }
+        // cursors are moved and removed by many messages
+        this.throttledOffscreenIndicatorsUpdate()
+        // checked afterwards, so the metadata of the message is already part of the user
+        if (isUnknownUser && senderId! in this.externalUserLastSeenMap) this.emit('user-joined', { user: this.getCollabUser(senderId!) })
+        this.notifyUsersChanged()
+    }
+
+    private onReceiveChange = (response: MessageData) => {
+        this.markExternalUserSeen(response)
+        if (this._lockArbiter) this.sendLockArbiterAnswers(this._lockArbiter.handleMessage(response))
+        switch (response.type) {
+            case 'block-added': {
+                const { index, block, version } = response
+                if (!this.acceptRemoteBlockVersion(block.id, version)) break
+                this.addBlockToIgnoreListUntilNextRender(block.id, response.type)
+                this.editor.blocks.insert(block.tool, block.data, null, index, false, false, block.id)
+                const shouldHaveInternalState = this.config.toolsWithDataCheck.includes(block.tool)
+                if (shouldHaveInternalState) {
+                    this._customToolsInternalState[block.id] = { data: block.data, tunes: (block as any).tunes ?? {} };
+                }
+                if (this.isTextSyncTool(block.tool)) this.initializeTextSyncState(block.id, block.data, (block as any).tunes)
+                this._lastKnownBlockData[block.id] = { data: block.data, version: { ...version } }
+                this.emit('block-added', { source: 'remote', connectionId: version.connectionId, blockId: block.id, tool: block.tool, index })
+                break
+            }
+            case 'block-changed': {
+                if ('patch' in response) {
+                    this.applyRemoteBlockPatch(response)
+                    break
+                }
+                const { index, block, version } = response
+                // an older payload that arrived late would overwrite newer data
+                if (!this.acceptRemoteBlockVersion(block.id, version)) break
+                this.applyRemoteBlockChange(block, index, version)
                 break
             }
             case 'block-moved': {
-                const { toBlockId, fromBlockId, toBlockIndex } = response
+                const { toBlockId, fromBlockId, toBlockIndex, version } = response
+                // moves of removed blocks are not dropped by the version check anymore
+                if (!this.editor.blocks.getById(fromBlockId)) break
+                if (!this.acceptRemoteBlockVersion(fromBlockId, version, 'position')) break
                 const toIndex = this.editor.blocks.getBlockIndex(toBlockId)
                 const fromIndex = this.editor.blocks.getBlockIndex(fromBlockId)
 
@@ -518,11 +1969,13 @@ export default class GroupCollab {
                 const toCursors = this.getFakeCursors({ blockId: toBlockId })
                 toCursors?.forEach(cursor => cursor.remove())
 
+                this.emit('block-moved', { source: 'remote', connectionId: version.connectionId, blockId: fromBlockId, toIndex: toBlockIndex })
                 break
             }
 
             case 'block-removed': {
-                const { blockId } = response
+                const { blockId, version } = response
+                if (!this.acceptRemoteBlockVersion(blockId, version)) break
                 this.addBlockToIgnoreListUntilNextRender(blockId, response.type)
                 const blockIndex = this.editor.blocks.getBlockIndex(blockId)
                 const blockName = this.editor.blocks.getBlockByIndex(blockIndex)?.name ?? ""
@@ -531,15 +1984,19 @@ export default class GroupCollab {
                 if (shouldHaveInternalState) {
                     delete this._customToolsInternalState[blockId];
                 }
+                delete this._textSyncStates[blockId]
+                delete this._lastKnownBlockData[blockId]
                 const selections = this.getFakeSelections({ blockId })
                 selections?.forEach(sel => sel.remove())
                 const cursors = this.getFakeCursors({ blockId })
                 cursors?.forEach(cursor => cursor.remove())
+                this.emit('block-removed', { source: 'remote', connectionId: version.connectionId, blockId })
                 break
             }
             case 'block-selection-change': {
                 const { blockId, isSelected } = response
                 this.addBlockToIgnoreListUntilNextRender(blockId, response.type)
+                this.emit('block-selection-change', { source: 'remote', blockId, isSelected })
                 const block = this.getDOMBlockById(blockId)
                 if (!block) return
 
@@ -560,6 +2017,7 @@ export default class GroupCollab {
             case 'block-deletion-change': {
                 const { blockId, isDeletePending } = response
                 this.addBlockToIgnoreListUntilNextRender(blockId, response.type)
+                this.emit('block-deletion-change', { source: 'remote', blockId, isDeletePending })
                 const block = this.getDOMBlockById(blockId)
                 if (!block) return
 
@@ -576,223 +2034,1093 @@ export default class GroupCollab {
             }
 
             case 'inline-selection-change': {
-                const { type, /* rects, */ elementXPath, blockId, connectionId, anchorOffset, elementNodeIndex, focusOffset, color, selectionColor } = response
-                const blockContent = this.getDOMBlockById(blockId)?.querySelector(`.${this.EditorCSS.blockContent}`)
-                if (!blockContent /* || !rects.length */) return
-
-                const isSelection = anchorOffset !== focusOffset
-                const isReset = elementXPath === null || isSelection
-                if (isReset) {
-                    const oldCursors = this.getFakeCursors({ connectionId })
-                    oldCursors?.forEach(cursor => cursor.remove())
+                const { type, ...remoteSelection } = response
+                const { anchor, focus, connectionId } = remoteSelection
+                this.updateExternalUser(connectionId, { currentBlockId: focus.blockId })
+                this.emit('inline-selection-change', { source: 'remote', connectionId, anchor, focus })
+                this._remoteSelections[connectionId] = remoteSelection
+                this._remoteSelectionTexts[connectionId] = {
+                    anchor: this.getInputAtPosition(anchor)?.textContent ?? null,
+                    focus: this.getInputAtPosition(focus)?.textContent ?? null,
                 }
+                this.renderRemoteSelection(remoteSelection)
+                if (connectionId === this._followedConnectionId) this.scrollToRemoteCaret(connectionId)
+                break
+            }
 
-                // remove existing selection for this user
-                // console.log(response)
-                const editorHolder = this.getEditorHolder()
-                if (!editorHolder) return
-                const parentElement = editorHolder.querySelector(elementXPath)
-                if (!(parentElement instanceof HTMLElement)) return
-
-                const nodeElement = parentElement.childNodes[elementNodeIndex];
-                if (!nodeElement) return
-                const calculatedSelectionRects = this.getBoundingClientRectForSelection(nodeElement, anchorOffset, focusOffset)
-                const parentElementRect = editorHolder.getBoundingClientRect()
-
-                this.getFakeSelections({ connectionId })?.forEach((sel) => sel.remove())
-                if (isSelection) {
-
-                    // Adjust rects to be relative to editorHolder
-
-                    for (let i = 0; i < calculatedSelectionRects.length; i++) {
-                        const rect = calculatedSelectionRects.item(i)
-                        if (!rect) continue
-                        const selectionElement = this.createSelectionElement({ blockId, connectionId })
-                        // Adjust rect position relative to parentElement
-                        selectionElement.style.top = `${rect.top - parentElementRect.top}px`
-                        selectionElement.style.left = `${rect.left - parentElementRect.left}px`
-                        selectionElement.style.width = `${rect.width}px`;
-                        selectionElement.style.height = `${rect.height}px`;
-                        if (selectionColor) selectionElement.style.setProperty('--realtime-inline-selection-color', selectionColor)
-                        editorHolder.insertAdjacentElement("beforeend", selectionElement);
-                        this.addBlockToIgnoreListUntilNextRender(blockId, 'block-changed');
-                    }
+            case UserInlineSelectionAsk: {
+                this.onInlineSelectionChange();
+                this._lastSentViewport = null
+                this.onViewportChange()
+                break;
+            }
+
+            case UserViewportChangeType: {
+                const { type, connectionId, ...viewport } = response
+                this._remoteViewports[connectionId] = viewport
+                if (connectionId === this._followedConnectionId) this.scrollToRemoteViewport(connectionId)
+                break
+            }
+
+            case UserDisconnectedType: {
+                this.removeExternalUser(response.connectionId)
+                this.emit('user-left', { connectionId: response.connectionId })
+                break
+            }
+
+            case ProtocolHelloType: {
+                const { type, ...hello } = response
+                if (hello.connectionId === this.socket.connectionId) break
+                this.registerPeerProtocol(hello)
+                this.sendMessage({ type: ProtocolWelcomeType, ...this.getProtocolHelloData(), targetConnectionId: hello.connectionId })
+                break
+            }
+
+            case ProtocolWelcomeType: {
+                const { type, targetConnectionId, ...welcome } = response
+                if (targetConnectionId !== this.socket.connectionId) break
+                this.registerPeerProtocol(welcome)
+                break
+            }
+
+            case DocumentSyncRequestType: {
+                const { connectionId, requestId } = response
+                if (connectionId === this.socket.connectionId) break
+                // the other users ignore snapshots of viewers and commenters
+                if (this.config.role !== 'editor') break
+                const shouldAnswer = this.config.onSyncRequested?.({ connectionId }) ?? true
+                if (shouldAnswer === false) break
+
+                this.getDocumentSnapshot().then((snapshot) => {
+                    if (!this.isListening) return
+                    this.sendMessage({
+                        type: DocumentSyncResponseType,
+                        ...snapshot,
+                        connectionId: this.socket.connectionId,
+                        targetConnectionId: connectionId,
+                        requestId,
+                    })
+                })
+                break
+            }
+
+            case DocumentSyncResponseType: {
+                const { connectionId, targetConnectionId, requestId, data, lockedBlocks, blockVersions } = response
+                if (targetConnectionId !== this.socket.connectionId) break
+                // a snapshot replaces the whole document, so only editors and the lock arbiter may send one
+                const isFromEditor = this._externalUsers[connectionId]?.role === 'editor'
+                if (!isFromEditor && connectionId !== this.config.lockArbiter?.connectionId) {
+                    console.warn(`Ignored document snapshot from "${connectionId}", it did not announce itself as an editor`)
+                    break
+                }
+                // only the first answer is applied, other users might answer the same request
+                if (this._pendingSyncRequest?.requestId !== requestId) break
+                const { onResponse } = this._pendingSyncRequest
+                this.clearPendingSyncRequest()
+
+                onResponse({ data, lockedBlocks, blockVersions })
+                break
+            }
+
+            case UserPresenceAnnounceType: {
+                const { connectionId, user, role = 'editor', isIdle, targetConnectionId } = response
+                if (connectionId === this.socket.connectionId) break
+                if (targetConnectionId && targetConnectionId !== this.socket.connectionId) break
+
+                const isNewUser = !this._externalUsers[connectionId]
+                const wasIdle = this._externalUsers[connectionId]?.isIdle ?? false
+                this.updateExternalUser(connectionId, { user, role, isIdle })
+                if (wasIdle !== isIdle) this.emit('user-idle-change', { connectionId, isIdle })
+                // let the user that just joined know who is already here
+                if (isNewUser && !targetConnectionId) this.announcePresence(connectionId)
+                break
+            }
+
+            case UserPresencePingType: {
+                console.log("Received presence ping from", response.connectionId, " at ", new Date().toLocaleTimeString())
+                break
+            }
+
+            case BlockLockedType: {
+                const { type, ...receivedLock } = response
+                const lock = this.startLockLease(receivedLock)
+                const { blockId, connectionId } = lock
+                const existingLock = this.lockedBlocks.find(b => b.blockId === blockId)
+                if (existingLock && existingLock.connectionId !== connectionId) break;
+                // the owner changed its lock, e.g. turned a typing lock into a pinned one, it is rendered again with the new reason
+                if (existingLock) {
+                    this.lockedBlocks = this.lockedBlocks.filter(b => b.blockId !== blockId)
+                }
+                this.updateExternalUser(connectionId, { currentBlockId: blockId })
+                this.lockedBlocks = [...this.lockedBlocks, lock]
+                this.addBlockToIgnoreListUntilNextRender(blockId, 'block-changed')
+                this.emit('block-locked', { source: 'remote', ...lock })
+
+                const blockApi = this.editor.blocks.getById(blockId)
+                if (!blockApi) return;
+
+                //? This fixes the visual flickering btw when updating block data from remote sources
+                const Xpath = this.getElementXPath(blockApi.holder);
+                this.addStyleToDOM(Xpath, {
+                    animationName: 'none',
+                }, blockId)
+
+                const cursors = this.getFakeCursors({ blockId })
+                cursors?.forEach(cursor => cursor.remove())
+                const selections = this.getFakeSelections({ blockId })
+                selections?.forEach(sel => sel.remove())
+                break;
+            }
+
+            case BlockDataRequestType: {
+                const { blockId, targetConnectionId } = response
+                if (targetConnectionId !== this.socket.connectionId) break
+                const lastKnownBlockData = this._lastKnownBlockData[blockId]
+                const blockApi = this.editor.blocks.getById(blockId)
+                if (!lastKnownBlockData || !blockApi) break
+
+                // the last known data of synced text is outdated, the current text is sent with a new version so every user resets to it
+                if (this._textSyncStates[blockId]) {
+                    this.sendSyncedTextBlock(blockId, blockApi)
+                    break
+                }
+
+                // a change of another user reaches the requesting user from its author, and only the author can sign its version
+                if (lastKnownBlockData.version.connectionId !== this.socket.connectionId) break
+
+                // users that already have this version drop it, only the requesting user applies it
+                this.sendMessage({
+                    type: 'block-changed',
+                    block: { id: blockId, tool: blockApi.name, data: lastKnownBlockData.data, time: Date.now() },
+                    index: this.editor.blocks.getBlockIndex(blockId),
+                    version: { ...lastKnownBlockData.version },
+                })
+                break
+            }
+
+            case BlockTextOperationType: {
+                const { blockId, connectionId, operations } = response
+                const textSyncState = this._textSyncStates[blockId]
+                if (!textSyncState) break
+
+                const isConsistent = textSyncState.crdt.applyRemoteOperations(operations)
+                if (!isConsistent) this.schedulePendingTextCheck(blockId, connectionId)
+                this.renderSyncedText(blockId, textSyncState.crdt.toString())
+                this.emit('block-changed', { source: 'remote', connectionId: response.connectionId, blockId, index: this.editor.blocks.getBlockIndex(blockId) })
+                break
+            }
+
+            case BlockLockGrantType: {
+                const { blockId, connectionId, targetConnectionId, requestId } = response
+                if (targetConnectionId !== this.socket.connectionId || connectionId !== this.config.lockArbiter?.connectionId) break
+                if (this._lockRequests[blockId]?.requestId !== requestId) break
+                const { pendingInputs, lockOptions } = this._lockRequests[blockId]
+                this.clearLockRequest(blockId)
+
+                if (lockOptions) {
+                    this.createOwnLock(blockId, lockOptions)
                 } else {
-                    let cursor: HTMLDivElement;
-                    if (isReset)
-                        cursor = this.createFakeCursor({ connectionId, blockId })
-                    else {
-                        cursor = this.getFakeCursors({ connectionId })?.item(0) as HTMLDivElement;
-                        if (!cursor) cursor = this.createFakeCursor({ connectionId, blockId })
-                        // reset animation state
-                        cursor.style.animation = 'none'
-                        cursor.offsetHeight // trigger reflow
-                        cursor.style.animation = ''
-                    }
-                    const rect = calculatedSelectionRects.item(0)
-                    if (!rect) return;
-                    //* Note if element is not found try without nth-child
-                    const selectedElement = this.getEditorHolder()?.querySelector(elementXPath)
-                    if (!(selectedElement instanceof HTMLElement)) return
+                    this._grantedBlockIds.add(blockId)
+                    this.acquireBlockLock(blockId)
+                }
+                this.replayPendingInputs(blockId, pendingInputs)
+                break
+            }
+
+            case BlockLockDenyType: {
+                const { blockId, connectionId, targetConnectionId, requestId, lockedBy } = response
+                if (targetConnectionId !== this.socket.connectionId || connectionId !== this.config.lockArbiter?.connectionId) break
+                if (this._lockRequests[blockId]?.requestId !== requestId) break
+                this.clearLockRequest(blockId)
+                this.emit('block-lock-denied', { blockId, lockedBy })
+                break
+            }
+
+            case BlockLockRenewType: {
+                const { blockId, connectionId, leaseDuration } = response
+                if (connectionId === this.socket.connectionId) break
+                // a late renewal must not bring back a lock that was released in the meantime
+                const existingLock = this.lockedBlocks.find(b => b.blockId === blockId && b.connectionId === connectionId)
+                if (!existingLock) break
+                const lock = this.startLockLease({ ...existingLock, leaseDuration })
+                this._lockedBlocks = this._lockedBlocks.map(b => (b.blockId === blockId ? lock : b))
+                this.scheduleLockExpiry(lock)
+                break
+            }
+
+            case BlockEditRequestType: {
+                const { blockId, connectionId, targetConnectionId, requestId } = response
+                if (targetConnectionId !== this.socket.connectionId) break
+                const ownsLock = this._ownLocks[blockId] || this._debouncedBlockUnlockingsMap[blockId]
+                if (!ownsLock) {
+                    this.sendMessage({ type: BlockEditResponseType, blockId, connectionId: this.socket.connectionId, targetConnectionId: connectionId, requestId, accepted: true })
+                    break
+                }
+
+                Promise.resolve(this.config.onEditRequested?.({ blockId, user: this.getCollabUser(connectionId) })).then((accepted) => {
+                    if (typeof accepted !== 'boolean' || !this.isListening) return
+                    if (accepted) this.releaseOwnLock(blockId)
+                    this.sendMessage({ type: BlockEditResponseType, blockId, connectionId: this.socket.connectionId, targetConnectionId: connectionId, requestId, accepted })
+                })
+                break
+            }
+
+            case BlockEditResponseType: {
+                const { blockId, connectionId, targetConnectionId, requestId, accepted } = response
+                if (targetConnectionId !== this.socket.connectionId) break
+                const editRequest = this._editRequests[blockId]
+                if (editRequest?.requestId !== requestId || editRequest.ownerConnectionId !== connectionId) break
+                this.clearEditRequest(blockId)
+
+                this.emit('edit-request-answered', { blockId, connectionId, outcome: accepted ? 'accepted' : 'denied' })
+                if (!accepted) break
+                // the owner released the lock before answering
+                if (this.hasLockArbiter) this.requestBlockLock(blockId)
+                else this.acquireBlockLock(blockId)
+                break
+            }
+
+            case BlockLockTakeoverType: {
+                const { blockId, connectionId, fromConnectionId } = response
+                if (fromConnectionId === this.socket.connectionId) {
+                    if (this._ownLocks[blockId]?.pinned) break
+                    this.releaseOwnLock(blockId)
+                    break
+                }
+                const lock = this.lockedBlocks.find(b => b.blockId === blockId && b.connectionId === fromConnectionId)
+                if (!lock || lock.pinned) break
+                this.lockedBlocks = this.lockedBlocks.filter(b => !(b.blockId === blockId && b.connectionId === fromConnectionId))
+                this.removeStyleFromDOM(blockId)
+                this.emit('block-unlocked', { source: 'remote', connectionId: fromConnectionId, blockId })
+                // the new owner locks the block with a normal block-locked message
+                this.updateExternalUser(connectionId, { currentBlockId: blockId })
+                break
+            }
+
+            case BlockLockClearType: {
+                const { blockId, connectionId, lockedBy } = response
+                if (connectionId === this.socket.connectionId) break
+                if (lockedBy === this.socket.connectionId) {
+                    this.dropOwnLock(blockId, connectionId)
+                    break
+                }
+
+                const wasLocked = this.lockedBlocks.some(b => b.blockId === blockId && b.connectionId === lockedBy)
+                if (!wasLocked) break
+                this.lockedBlocks = this.lockedBlocks.filter(b => !(b.blockId === blockId && b.connectionId === lockedBy))
+                this.removeStyleFromDOM(blockId)
+                this.emit('block-unlocked', { source: 'remote', connectionId, blockId })
+                break
+            }
+
+            case BlockUnlockedType: {
+                const { blockId, connectionId } = response
+                const wasLocked = this.lockedBlocks.some(b => b.blockId === blockId && b.connectionId === connectionId)
+                this.lockedBlocks = this.lockedBlocks.filter(b => !(b.blockId === blockId && b.connectionId === connectionId))
+                this.addBlockToIgnoreListUntilNextRender(blockId, 'block-changed')
+                this.removeStyleFromDOM(blockId);
+                if (wasLocked) this.emit('block-unlocked', { source: 'remote', connectionId, blockId })
+                break;
+            }
+
+            default: {
+            }
+        }
+    }
+
+    private applyRemoteBlockChange(block: SavedData, index: number, version: BlockVersion) {
+        this._lastKnownBlockData[block.id] = { data: block.data, version: { ...version } }
+        this.addBlockToIgnoreListUntilNextRender(block.id, 'block-changed')
+        const shouldHaveInternalState = this.config.toolsWithDataCheck.includes(block.tool)
+        if (shouldHaveInternalState) {
+            this._customToolsInternalState[block.id] = { data: block.data, tunes: (block as any).tunes ?? {} };
+        }
+        // full payloads replace the text state, the sender rebuilt its own from the same data
+        if (this.isTextSyncTool(block.tool)) this.initializeTextSyncState(block.id, block.data, (block as any).tunes)
+        const customClassList = this.getDOMBlockById(block.id)?.classList
+
+        const blockApi = this.editor.blocks.getById(block.id)
+        if (!blockApi) return
+
+        this.emit('block-changed', { source: 'remote', connectionId: version.connectionId, blockId: block.id, index })
+        this.editor.blocks
+            .update(block.id, block.data)
+            .catch((e) => {
+                if (e.message === `Block with id "${block.id}" not found`) {
+                    this.addBlockToIgnoreListUntilNextRender(block.id, 'block-added')
+                    this.editor.blocks.insert(block.tool, block.data, null, index, false, false, block.id)
+                }
+            })
+            .then(() => {
+                // the rendered text moves the remote cursors in this block
+                this.debouncedRemoteSelectionsRender()
+                const lockedBlock = this.lockedBlocks.find(b => b.blockId === block.id && b.connectionId !== this.socket.connectionId)
+                if (lockedBlock) {
+                    this.renderLockedBlocks([], [lockedBlock])
+                }
+
+                // some blocks when being selected emit a block-changed event
+                if (customClassList?.contains(this.CSS.selected)) {
+                    const domBlock = this.getDOMBlockById(block.id);
+                    if (!domBlock) return;
+                    domBlock.classList.add(this.CSS.selected)
+                    if (this.config.overrideStyles?.selectedClass)
+                        domBlock.classList.add(this.config.overrideStyles.selectedClass)
+                }
+            })
+    }
+
+    private applyRemoteBlockPatch({ blockId, tool, index, patch, baseVersion, version }: BlockPatchData) {
+        const currentVersion = this._blockVersions[blockId]
+        if (currentVersion && this.compareBlockVersions(version, currentVersion) <= 0) return
+
+        const base = this._lastKnownBlockData[blockId]
+        const hasSameBase = base && this.compareBlockVersions(base.version, baseVersion) === 0
+        let data: SavedData['data'] | null = null
+        if (hasSameBase) {
+            try {
+                data = applyJsonPatch(base.data, patch)
+            } catch (e) {
+                data = null
+            }
+        }
+        // the patch was created against data this client does not have, ask the sender for the full block
+        if (!data) {
+            this.sendMessage({ type: BlockDataRequestType, blockId, connectionId: this.socket.connectionId, targetConnectionId: version.connectionId })
+            return
+        }
+
+        this.acceptRemoteBlockVersion(blockId, version)
+        this.applyRemoteBlockChange({ id: blockId, tool, data, time: Date.now() }, index, version)
+    }
+
+    //#region Emit Editor Block Event Handling
+    private onEditorBlockEvent = async (data: any) => {
+        if (!(data?.event instanceof CustomEvent) || !data.event) {
+            console.error('block changed but its not custom event')
+            return
+        }
+        const { event } = data
+        if (!this.validateEventDetail(event)) return
+        if (!this.canEditBlocks) return
+        // rendering a snapshot removes and inserts every block, these are not user changes
+        if (this._isApplyingSnapshot) return
+        const type = event.type as EditorEvents
+        const { target, ...otherData } = event.detail as PossibleEventDetails
+        otherData.type = type
+        const targetId = target.id
+
+        if (this.ignoreEvents[targetId]?.has(type)) return
+
+        const isBlockLocked = this.lockedBlocks.some(b => b.blockId === targetId && b.connectionId !== this.socket.connectionId)
+        if (isBlockLocked) return
+
+        const shouldBlockHaveInternalState = this.config.toolsWithDataCheck.includes(target.name)
+        const isTextSyncBlock = this.isTextSyncTool(target.name)
+
+
+        // block changes are throttled, thus se have this separate from the other DOM events
+        // text synced blocks are edited concurrently, they never get locked
+        if (type === 'block-changed' && !isTextSyncBlock) {
+            // some tools, such as table, emit block-changed events even if i click on another block in the redactor 🤦‍♂️
+            if (shouldBlockHaveInternalState) {
+                // TODO this might cause an async race.
+                const savedData = await target.save()
+                if (!savedData) return
+
+                const dataToCompareWith = { data: savedData.data, tunes: (savedData as any).tunes };
+                const hasSameData = this.compareToolsData(this._customToolsInternalState[targetId], dataToCompareWith);
+                if (hasSameData && this._currentEditorLockingBlockId !== targetId) return; // skip this nonsense if false alarms are detected
+                this._customToolsInternalState[targetId] = dataToCompareWith;
+            }
+            // locks from lockBlock() are only released by unlockBlock()
+            if (!this._ownLocks[targetId]) this.lockBlockWhileTyping(targetId)
+        }
+
+        //save after dom changes have been propagated to the necessary tools
+        setTimeout(async () => {
+            if (type === 'block-changed') {
+                if (!('index' in otherData) || typeof otherData.index !== 'number') return
+                this.throttledBlockChange?.(target, otherData.index ?? 0)
+                setTimeout(() => {
+                    this.throttledInlineSelectionChange?.()
+                }, 0)
+                return
+            }
+
+            const savedData = await target.save()
+            if (!savedData) return
+
+            const socketData: Partial<MessageData> = {
+                type,
+                block: savedData,
+            }
+            if (socketData.type === 'block-added') {
+                socketData.index = (otherData as PickFromConditionalType<PossibleEventDetails, 'block-added'>).index
+                if (shouldBlockHaveInternalState)
+                    this._customToolsInternalState[targetId] = { data: savedData.data, tunes: (savedData as any).tunes ?? {} };
+                if (isTextSyncBlock) this.initializeTextSyncState(targetId, savedData.data, (savedData as any).tunes)
+            }
+            if (socketData.type === 'block-removed') {
+                socketData.blockId = targetId
+                if (shouldBlockHaveInternalState)
+                    delete this._customToolsInternalState[targetId];
+                delete this._textSyncStates[targetId]
+            }
+            if (socketData.type === 'block-moved') {
+                const { fromIndex, toIndex } = otherData as PickFromConditionalType<PossibleEventDetails, 'block-moved'>
+                socketData.fromBlockId = targetId
+                socketData.toBlockIndex = toIndex
+                //at this point the blocks already switched places
+                socketData.toBlockId = this.editor.blocks.getBlockByIndex(fromIndex)?.id
+            }
+            const version = this.nextBlockVersion(targetId, socketData.type === 'block-moved' ? 'position' : 'content')
+            if (socketData.type === 'block-added') this._lastKnownBlockData[targetId] = { data: savedData.data, version: { ...version } }
+            if (socketData.type === 'block-removed') delete this._lastKnownBlockData[targetId]
+            const message = { ...socketData, version } as OutboxMessage
+            this.sendMessage(message)
+            this.emitLocalBlockEvent(message, target)
+        }, 0)
+    }
+
+    private emitLocalBlockEvent(message: OutboxMessage, target: BlockAPI) {
+        const origin = { source: 'local', connectionId: this.socket.connectionId } as const
+        switch (message.type) {
+            case 'block-added':
+                this.emit('block-added', { ...origin, blockId: target.id, tool: target.name, index: message.index })
+                break
+            case 'block-moved':
+                this.emit('block-moved', { ...origin, blockId: target.id, toIndex: message.toBlockIndex })
+                break
+            case 'block-removed':
+                this.emit('block-removed', { ...origin, blockId: target.id })
+                break
+        }
+    }
+
+    //#region Document Sync
+    private async applyDocumentSnapshot({ data, lockedBlocks, blockVersions }: DocumentSnapshot) {
+        this._isApplyingSnapshot = true
+        try {
+            this.getFakeCursors({})?.forEach(cursor => cursor.remove())
+            this.getFakeSelections({})?.forEach(selection => selection.remove())
+            this.lockedBlocks = []
+
+            await this.editor.render(data)
+
+            this._customToolsInternalState = {}
+            this.initializeCustomToolsState(data.blocks)
+            this._textSyncStates = {}
+            this.initializeTextSyncStates(data.blocks)
+            this._blockVersions = { ...blockVersions }
+            // the snapshot carries the block order of the sender, the versions of moves seen before do not apply to it
+            this._blockPositionVersions = {}
+            for (const version of Object.values(blockVersions))
+                this._lamportClock = Math.max(this._lamportClock, version.clock)
+            this._lastKnownBlockData = {}
+            for (const block of data.blocks) {
+                const version = block.id && blockVersions[block.id]
+                if (version) this._lastKnownBlockData[block.id!] = { data: block.data, version: { ...version } }
+            }
+            this.lockedBlocks = lockedBlocks.filter(b => b.connectionId !== this.socket.connectionId).map(b => this.startLockLease(b))
+            this.debouncedRemoteSelectionsRender()
+        } finally {
+            // block events are emitted after rendering as well
+            setTimeout(() => {
+                this._isApplyingSnapshot = false
+            }, 0)
+        }
+        this.syncExternalCursors()
+    }
+
+    /**
+     * @param onResponse called with the first snapshot received, or null if nobody answered in time
+     */
+    private requestSnapshot(onResponse: (snapshot: DocumentSnapshot | null) => void) {
+        this.clearPendingSyncRequest()
+        const requestId = createId()
+        const timeout = window.setTimeout(() => {
+            if (this._pendingSyncRequest?.requestId !== requestId) return
+            this._pendingSyncRequest = null
+            onResponse(null)
+        }, this.config.syncResponseTimeout)
+        this._pendingSyncRequest = { requestId, timeout, onResponse }
+        this.sendMessage({ type: DocumentSyncRequestType, connectionId: this.socket.connectionId, requestId })
+    }
+
+    private clearPendingSyncRequest() {
+        if (!this._pendingSyncRequest) return
+
+        window.clearTimeout(this._pendingSyncRequest.timeout)
+        this._pendingSyncRequest = null
+    }
+
+    //#region Offline Outbox
+    private sendMessage(message: MessageData) {
+        if (this._socketStatus === 'disconnected') {
+            // cursors, locks and presence are outdated once connected again, only block changes are kept
+            if (this.isOutboxMessage(message)) this.queueOutboxMessage(message)
+            return
+        }
+
+        // the outbox keeps the original messages, they pass the middleware once actually sent
+        this.runMiddleware('outgoing', message, outgoingMessage => this.transmitMessage(outgoingMessage))
+    }
+
+    private onSocketStatusChange = (status: SocketStatus) => {
+        const previousStatus = this._socketStatus
+        this._socketStatus = status
+        if (status === previousStatus || !this.isListening) return
+
+        if (status === 'disconnected') {
+            this._blockVersionsAtDisconnect = this.blockVersions
+            this.clearPendingSyncRequest()
+            return
+        }
+
+        // other users might have changed the document while this client was offline
+        this.requestSnapshot((snapshot) => this.replayOutbox(snapshot))
+    }
+
+    private isOutboxMessage(message: MessageData): message is OutboxMessage {
+        return message.type === 'block-added' || message.type === 'block-changed' || message.type === 'block-moved' || message.type === 'block-removed'
+    }
+
+    private getOutboxMessageBlockId(message: OutboxMessage): string {
+        switch (message.type) {
+            case 'block-added':
+                return message.block.id
+            case 'block-changed':
+                return 'patch' in message ? message.blockId : message.block.id
+            case 'block-moved':
+                return message.fromBlockId
+            case 'block-removed':
+                return message.blockId
+        }
+    }
+
+    /**
+     * Repeated changes of the same block are coalesced, only the latest data of a block is replayed.
+     */
+    private queueOutboxMessage(message: OutboxMessage) {
+        const blockId = this.getOutboxMessageBlockId(message)
+        const queuedAddIndex = this._outbox.findIndex(m => m.type === 'block-added' && m.block.id === blockId)
+
+        if (message.type === 'block-changed' && !('patch' in message)) {
+            // the block does not exist for the other users yet, add it with its latest data
+            const queuedAdd = this._outbox[queuedAddIndex]
+            if (queuedAdd?.type === 'block-added') {
+                this._outbox[queuedAddIndex] = { ...queuedAdd, block: message.block, version: message.version }
+                return
+            }
+            const queuedChangeIndex = this._outbox.findIndex(m => m.type === 'block-changed' && this.getOutboxMessageBlockId(m) === blockId)
+            if (queuedChangeIndex !== -1) {
+                this._outbox[queuedChangeIndex] = message
+                return
+            }
+        }
+        if (message.type === 'block-moved')
+            this._outbox = this._outbox.filter(m => !(m.type === 'block-moved' && m.fromBlockId === blockId))
+        if (message.type === 'block-removed') {
+            this._outbox = this._outbox.filter(m => this.getOutboxMessageBlockId(m) !== blockId)
+            if (queuedAddIndex !== -1) return
+        }
+
+        this._outbox.push(message)
+    }
+
+    private async replayOutbox(snapshot: DocumentSnapshot | null) {
+        const outbox = this._outbox
+        this._outbox = []
+        if (!snapshot) {
+            // nobody answered, so there is no remote state to conflict with
+            outbox.forEach(message => this.sendMessage(message))
+            return
+        }
+
+        const acceptedMessages = outbox.filter((message) => {
+            const conflict = this.findOfflineConflict(message, snapshot)
+            if (!conflict) return true
+            if (!this.config.onOfflineConflict)
+                console.warn(`Discarded the offline change of block "${conflict.blockId}", another user changed it in the meantime. Use onOfflineConflict to decide.`)
+
+            const kept = this.config.onOfflineConflict?.(conflict) === 'local' ? 'local' : 'remote'
+            this.emit('offline-conflict', { ...conflict, kept })
+            return kept === 'local'
+        })
+        const data = this.mergeOutboxMessages(snapshot.data, acceptedMessages)
+        await this.applyDocumentSnapshot({ ...snapshot, data })
+
+        // offline versions are older than the remote ones, other users would drop them
+        for (const message of acceptedMessages) {
+            const blockId = this.getOutboxMessageBlockId(message)
+            if (message.type === 'block-moved') {
+                const toBlockIndex = data.blocks.findIndex(b => b.id === blockId)
+                const toBlockId = snapshot.data.blocks[toBlockIndex]?.id
+                if (toBlockIndex === -1 || !toBlockId) continue
+                this.sendMessage({ ...message, toBlockIndex, toBlockId, version: this.nextBlockVersion(blockId, 'position') })
+                continue
+            }
+
+            const version = this.nextBlockVersion(blockId)
+            if (message.type === 'block-removed') delete this._lastKnownBlockData[blockId]
+            else if (!('patch' in message)) this._lastKnownBlockData[blockId] = { data: message.block.data, version: { ...version } }
+            this.sendMessage({ ...message, version })
+        }
+    }
+
+    private findOfflineConflict(message: OutboxMessage, snapshot: DocumentSnapshot): OfflineConflict | null {
+        const blockId = this.getOutboxMessageBlockId(message)
+        const remoteVersion = snapshot.blockVersions[blockId]
+        if (!remoteVersion || remoteVersion.connectionId === this.socket.connectionId) return null
+
+        const baseVersion = this._blockVersionsAtDisconnect[blockId]
+        if (baseVersion && this.compareBlockVersions(remoteVersion, baseVersion) <= 0) return null
+
+        return {
+            blockId,
+            localMessage: structuredClone(message),
+            remoteBlock: snapshot.data.blocks.find(b => b.id === blockId) ?? null,
+            remoteVersion: { ...remoteVersion },
+        }
+    }
+
+    private mergeOutboxMessages(data: OutputData, messages: OutboxMessage[]): OutputData {
+        const blocks = data.blocks.map(b => ({ ...b }))
+        for (const message of messages) {
+            switch (message.type) {
+                case 'block-added':
+                case 'block-changed': {
+                    if ('patch' in message) break
+                    const { block, index } = message
+                    const outputBlock: OutputBlockData = { id: block.id, type: block.tool, data: block.data, tunes: (block as any).tunes }
+                    const existingIndex = blocks.findIndex(b => b.id === block.id)
+                    if (existingIndex !== -1) blocks[existingIndex] = outputBlock
+                    else blocks.splice(Math.min(index, blocks.length), 0, outputBlock)
+                    break
+                }
+                case 'block-moved': {
+                    const fromIndex = blocks.findIndex(b => b.id === message.fromBlockId)
+                    if (fromIndex === -1) break
+                    const [block] = blocks.splice(fromIndex, 1)
+                    blocks.splice(Math.min(message.toBlockIndex, blocks.length), 0, block)
+                    break
+                }
+                case 'block-removed': {
+                    const index = blocks.findIndex(b => b.id === message.blockId)
+                    if (index !== -1) blocks.splice(index, 1)
+                    break
+                }
+            }
+        }
+        return { ...data, blocks }
+    }
+
+    //#region Middleware
+    private runMiddleware(direction: MessageMiddlewareContext['direction'], message: MessageData, onOutput: (message: MessageData) => void, index = 0) {
+        const middleware = this.config.middleware?.[direction]?.[index]
+        if (!middleware) {
+            onOutput(message)
+            return
+        }
+
+        const next = (result: MessageMiddlewareResult) => {
+            if (!result) return
+            const messages = Array.isArray(result) ? result : [result]
+            messages.forEach(m => this.runMiddleware(direction, m, onOutput, index + 1))
+        }
+        const onError = (error: unknown) => {
+            if (direction === 'outgoing') this.emit('send-failed', { message, error })
+            else console.error('Error in incoming message middleware, the message was dropped', error)
+        }
+
+        let result: MessageMiddlewareResult | Promise<MessageMiddlewareResult>
+        try {
+            result = middleware(message, this.getMiddlewareContext(direction))
+        } catch (error) {
+            onError(error)
+            return
+        }
+        if (result instanceof Promise) result.then(next, onError)
+        else next(result)
+    }
+
+    private getMiddlewareContext(direction: MessageMiddlewareContext['direction']): MessageMiddlewareContext {
+        return { direction, connectionId: this.socket.connectionId, lockedBlocks: this.getLockTable(), editor: this.editor }
+    }
+
+    //#region Encryption & Authentication
+    private transmitMessage(message: MessageData) {
+        if (this.config.documentId !== undefined) message = { ...message, documentId: this.config.documentId }
+        const [key] = this._encryptionKeys
+        const { authentication } = this.config
+        if (!key && !authentication) {
+            try {
+                this.socket.send(message)
+            } catch (error) {
+                this.emit('send-failed', { message, error })
+            }
+            return
+        }
+
+        const connectionId = this.socket.connectionId
+        this._sendQueue = this._sendQueue.then(async () => {
+            try {
+                let data: MessageData | SignedMessage | EncryptedMessage = message
+                // signed before encrypting, the signature is checked on the decrypted message
+                if (authentication) data = await signMessage(message, connectionId, authentication)
+                if (key) data = await encryptMessage(data, key)
+                this.socket.send(data)
+            } catch (error) {
+                this.emit('send-failed', { message, error })
+            }
+        })
+    }
+
+    //#region Protocol
+    private getProtocolHelloData(): ProtocolHelloData {
+        return {
+            connectionId: this.socket.connectionId,
+            protocolVersion: PROTOCOL_VERSION,
+            minProtocolVersion: MIN_COMPATIBLE_PROTOCOL_VERSION,
+            capabilities: [...SUPPORTED_CAPABILITIES],
+        }
+    }
+
+    /**
+     * @param isLegacy the user never said hello. It is older than the handshake and sends messages this client can not read, so it is incompatible
+     */
+    private registerPeerProtocol({ connectionId, protocolVersion, minProtocolVersion, capabilities }: ProtocolHelloData, isLegacy = false) {
+        const isCompatible = !isLegacy && (protocolVersion >= MIN_COMPATIBLE_PROTOCOL_VERSION && minProtocolVersion <= PROTOCOL_VERSION)
+        const peer: PeerProtocol = { connectionId, protocolVersion, minProtocolVersion, capabilities: [...capabilities], isCompatible }
+        const previousPeer = this._peerProtocols[connectionId]
+        this._peerProtocols[connectionId] = peer
+
+        const isSameProtocol = previousPeer && previousPeer.protocolVersion === protocolVersion && previousPeer.isCompatible === isCompatible
+        if (isSameProtocol) return
+        if (!isCompatible) {
+            if (isLegacy) console.warn(`User "${connectionId}" did not announce its realtime collab protocol version, their changes are ignored.`)
+            else console.warn(`User "${connectionId}" uses the incompatible realtime collab protocol version ${protocolVersion}, their changes are ignored.`)
+            this.config.onIncompatiblePeer?.({ ...peer })
+            return
+        }
+        if (protocolVersion > PROTOCOL_VERSION)
+            console.warn(`User "${connectionId}" uses the newer realtime collab protocol version ${protocolVersion}, consider updating this client.`)
+    }
+
+    /**
+     * Features are only used if every compatible user supports them, so older users are not sent messages they can not handle
+     */
+    private isCapabilityAvailable(capability: ProtocolCapability) {
+        return Object.values(this._peerProtocols).every(p => !p.isCompatible || p.capabilities.includes(capability))
+    }
+
+    //#region Text Sync
+    private isTextSyncTool(toolName: string) {
+        return this.config.textSyncTools.includes(toolName) && this.isCapabilityAvailable('text-sync')
+    }
+
+    private initializeTextSyncStates(allBlocks: OutputData['blocks']) {
+        for (const block of allBlocks) {
+            if (!block.id || !this.isTextSyncTool(block.type)) continue
+            this.initializeTextSyncState(block.id, block.data, block.tunes)
+        }
+    }
+
+    private initializeTextSyncState(blockId: string, data: SavedData['data'], tunes?: Object) {
+        const { text, ...otherData } = data ?? {}
+        this._textSyncStates[blockId] = {
+            crdt: new TextCrdt(this.socket.connectionId, typeof text === 'string' ? text : ''),
+            toolData: { data: otherData, tunes: tunes ?? {} },
+        }
+    }
+
+    /**
+     * Send the text changes of the block as insert/delete operations.
+     * @returns false if the full block has to be sent instead, e.g. when its tunes changed
+     */
+    private sendTextOperations(savedData: SavedData): boolean {
+        const textSyncState = this._textSyncStates[savedData.id]
+        if (!textSyncState) return false
+
+        const { text, ...otherData } = savedData.data ?? {}
+        if (typeof text !== 'string') return false
+        const toolData: ToolData = { data: otherData, tunes: (savedData as any).tunes ?? {} }
+        if (!this.compareToolsData(textSyncState.toolData, toolData)) return false
+
+        const operations = textSyncState.crdt.applyLocalText(text)
+        if (!operations.length) return true
+
+        this.sendMessage({ type: BlockTextOperationType, blockId: savedData.id, connectionId: this.socket.connectionId, operations })
+        return true
+    }
+
+    /**
+     * Request the full block if text operations still wait for characters after a while, e.g. because they were sent before this user joined.
+     */
+    private schedulePendingTextCheck(blockId: string, connectionId: string) {
+        if (this._pendingTextTimeouts[blockId]) return
+
+        this._pendingTextTimeouts[blockId] = window.setTimeout(() => {
+            delete this._pendingTextTimeouts[blockId]
+            if (!this._isListening || !this._textSyncStates[blockId]?.crdt.hasPendingOperations) return
+
+            console.warn(`Text of block "${blockId}" is out of sync, requesting the full block.`)
+            this.sendMessage({ type: BlockDataRequestType, blockId, connectionId: this.socket.connectionId, targetConnectionId: connectionId })
+        }, PENDING_TEXT_OPERATIONS_TIMEOUT)
+    }
+
+    private sendSyncedTextBlock(blockId: string, blockApi: BlockAPI) {
+        const { crdt, toolData } = this._textSyncStates[blockId]
+        const data = { ...toolData.data, text: crdt.toString() }
+        const version = this.nextBlockVersion(blockId)
+        this._lastKnownBlockData[blockId] = { data, version: { ...version } }
+        this.initializeTextSyncState(blockId, data, toolData.tunes)
+
+        this.sendMessage({
+            type: 'block-changed',
+            block: { id: blockId, tool: blockApi.name, data, time: Date.now() },
+            index: this.editor.blocks.getBlockIndex(blockId),
+            version,
+        })
+    }
+
+    private renderSyncedText(blockId: string, html: string) {
+        const input = this.getDOMBlockById(blockId)?.querySelector(`.${this.EditorCSS.blockContent} [contenteditable]`)
+        if (!(input instanceof HTMLElement) || input.innerHTML === html) return
+
+        // keep the local caret at the same text position if the user is typing in this block as well
+        const selection = document.getSelection()
+        const hasLocalSelection = Boolean(selection?.rangeCount && selection.anchorNode && selection.focusNode && input.contains(selection.anchorNode) && input.contains(selection.focusNode))
+        const oldText = input.textContent ?? ''
+        const anchorOffset = hasLocalSelection ? this.getTextOffset(input, selection!.anchorNode!, selection!.anchorOffset) : 0
+        const focusOffset = hasLocalSelection ? this.getTextOffset(input, selection!.focusNode!, selection!.focusOffset) : 0
+
+        this.addBlockToIgnoreListUntilNextRender(blockId, 'block-changed')
+        input.innerHTML = html
+        if (!hasLocalSelection) return
+
+        const newText = input.textContent ?? ''
+        const anchor = this.getDOMPositionFromTextOffset(input, this.shiftTextOffset(anchorOffset, oldText, newText))
+        const focus = this.getDOMPositionFromTextOffset(input, this.shiftTextOffset(focusOffset, oldText, newText))
+        selection!.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset)
+    }
 
-                    //This is used to resize the height of the selection if users have different font sizes/screen zoom in/out s
-                    const { fontSize } = window.getComputedStyle(selectedElement)
+    private shiftTextOffset(offset: number, oldText: string, newText: string) {
+        let prefixLength = 0
+        const maxPrefixLength = Math.min(oldText.length, newText.length)
+        while (prefixLength < maxPrefixLength && oldText[prefixLength] === newText[prefixLength]) prefixLength++
 
-                    cursor.style.height = fontSize
-                    cursor.style.top = `${rect.top - parentElementRect.top}px`
-                    cursor.style.left = `${rect.left - parentElementRect.left}px`
+        if (offset <= prefixLength) return offset
+        return Math.max(prefixLength, offset + newText.length - oldText.length)
+    }
 
-                    const { cursorClass } = this.config.overrideStyles ?? {}
-                    if (color) cursor.style.setProperty('--realtime-inline-cursor-color', color)
-                    if (cursorClass) cursor.classList.add(...cursorClass.split(' '))
+    //#region Block Deltas
+    /**
+     * @returns null if the full block has to be sent, because there is no base data or the patch is not smaller than the data
+     */
+    private createBlockPatch(blockId: string, data: SavedData['data']): Pick<BlockPatchData, 'patch' | 'baseVersion'> | null {
+        const base = this._lastKnownBlockData[blockId]
+        if (!base || !this.isCapabilityAvailable('block-deltas') || this._socketStatus !== 'connected') return null
 
-                    if (!editorHolder.contains(cursor)) editorHolder.insertAdjacentElement("beforeend", cursor)
-                }
-                break
-            }
+        const patch = createJsonPatch(base.data, data)
+        if (JSON.stringify(patch).length >= JSON.stringify(data).length) return null
 
-            case UserInlineSelectionAsk: {
-                this.onInlineSelectionChange();
-                break;
-            }
+        return { patch, baseVersion: { ...base.version } }
+    }
 
-            case UserDisconnectedType: {
-                const { connectionId } = response
-                const cursors = this.getFakeCursors({ connectionId })
-                const selections = this.getFakeSelections({ connectionId })
-                selections?.forEach(sel => sel.remove())
-                cursors?.forEach(cursor => cursor.remove())
-                this.lockedBlocks = this.lockedBlocks.filter(b => b.connectionId !== connectionId)
-                delete this.externalUserLastSeenMap[connectionId]
-                break
-            }
+    //#region Block Versions
+    private nextBlockVersion(blockId: string, kind: BlockVersionKind = 'content'): BlockVersion {
+        this._lamportClock++
+        const version: BlockVersion = { clock: this._lamportClock, connectionId: this.socket.connectionId }
+        this.getBlockVersions(kind)[blockId] = version
+        return { ...version }
+    }
 
-            case UserPresencePingType: {
-                console.log("Received presence ping from", response.connectionId, " at ", new Date().toLocaleTimeString())
-                break
-            }
+    /**
+     * Returns false if the block already has a newer (or the same) version of this kind, in which case the change must be dropped.
+     * Versions of removed blocks are kept so changes arriving after the removal are dropped as well.
+     */
+    private acceptRemoteBlockVersion(blockId: string, version: BlockVersion, kind: BlockVersionKind = 'content'): boolean {
+        this._lamportClock = Math.max(this._lamportClock, version.clock)
 
-            case BlockLockedType: {
-                const { blockId, connectionId } = response
-                const alreadyLocked = this.lockedBlocks.some(b => b.blockId === blockId)
-                if (alreadyLocked) break;
-                this.lockedBlocks = [...this.lockedBlocks, { blockId, connectionId }]
-                this.addBlockToIgnoreListUntilNextRender(blockId, 'block-changed')
+        const blockVersions = this.getBlockVersions(kind)
+        const currentVersion = blockVersions[blockId]
+        if (currentVersion && this.compareBlockVersions(version, currentVersion) <= 0) return false
 
-                const blockApi = this.editor.blocks.getById(blockId)
-                if (!blockApi) return;
+        blockVersions[blockId] = { ...version }
+        return true
+    }
 
-                //? This fixes the visual flickering btw when updating block data from remote sources
-                const Xpath = this.getElementXPath(blockApi.holder);
-                this.addStyleToDOM(Xpath, {
-                    animationName: 'none',
-                }, blockId)
+    private getBlockVersions(kind: BlockVersionKind): Record<string, BlockVersion> {
+        return kind === 'position' ? this._blockPositionVersions : this._blockVersions
+    }
 
-                const cursors = this.getFakeCursors({ blockId })
-                cursors?.forEach(cursor => cursor.remove())
-                const selections = this.getFakeSelections({ blockId })
-                selections?.forEach(sel => sel.remove())
-                break;
-            }
+    private compareBlockVersions(a: BlockVersion, b: BlockVersion): number {
+        if (a.clock !== b.clock) return a.clock - b.clock
+        if (a.connectionId === b.connectionId) return 0
+        return a.connectionId > b.connectionId ? 1 : -1
+    }
 
-            case BlockUnlockedType: {
-                const { blockId, connectionId } = response
-                this.lockedBlocks = this.lockedBlocks.filter(b => !(b.blockId === blockId && b.connectionId === connectionId))
-                this.addBlockToIgnoreListUntilNextRender(blockId, 'block-changed')
-                this.removeStyleFromDOM(blockId);
-                break;
-            }
+    //#region Edit Requests
+    private onEditRequestMouseDown = (e: MouseEvent) => {
+        // locked blocks do not receive pointer events, so they are found by their position
+        const lock = this.lockedBlocks.find((b) => {
+            const rect = this.getDOMBlockById(b.blockId)?.getBoundingClientRect()
+            return rect && e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom
+        })
+        if (lock) this.requestEdit(lock.blockId)
+    }
 
-            default: {
-            }
+    private takeOverBlockLock(blockId: string) {
+        const editRequest = this._editRequests[blockId]
+        if (!editRequest) return
+        this.clearEditRequest(blockId)
+
+        const { requestId, ownerConnectionId } = editRequest
+        const lock = this.lockedBlocks.find(b => b.blockId === blockId && b.connectionId === ownerConnectionId)
+        // another user locked the block after the owner released it
+        const isLockedByOtherUser = !lock && this.lockedBlocks.some(b => b.blockId === blockId)
+        if (lock?.pinned || isLockedByOtherUser) {
+            this.emit('edit-request-answered', { blockId, connectionId: ownerConnectionId, outcome: 'denied' })
+            return
+        }
+        if (lock) {
+            this.sendLockMessage({ type: BlockLockTakeoverType, blockId, connectionId: this.socket.connectionId, fromConnectionId: ownerConnectionId, requestId })
+            this.lockedBlocks = this.lockedBlocks.filter(b => !(b.blockId === blockId && b.connectionId === ownerConnectionId))
+            this.removeStyleFromDOM(blockId)
         }
+        // with an arbiter, the takeover transferred the lock already
+        if (this.hasLockArbiter) this._grantedBlockIds.add(blockId)
+        this.acquireBlockLock(blockId)
+        this.emit('edit-request-answered', { blockId, connectionId: ownerConnectionId, outcome: 'transferred' })
+        this.notifyUsersChanged()
     }
 
-    //#region Emit Editor Block Event Handling
-    private onEditorBlockEvent = async (data: any) => {
-        if (!(data?.event instanceof CustomEvent) || !data.event) {
-            console.error('block changed but its not custom event')
+    // release the lock right away instead of waiting for inactivity
+    private releaseOwnLock(blockId: string) {
+        if (this._ownLocks[blockId]) {
+            this.unlockBlock(blockId)
             return
         }
-        const { event } = data
-        if (!this.validateEventDetail(event)) return
-        const type = event.type as EditorEvents
-        const { target, ...otherData } = event.detail as PossibleEventDetails
-        otherData.type = type
-        const targetId = target.id
+        const debouncedUnlocking = this._debouncedBlockUnlockingsMap[blockId]
+        if (!debouncedUnlocking) return
+        debouncedUnlocking.cancel()
+        this.releaseTypingLock(blockId, this.socket.connectionId)
+    }
 
-        if (this.ignoreEvents[targetId]?.has(type)) return
+    // another user cleared the lock of this user, nothing has to be sent
+    private dropOwnLock(blockId: string, clearedBy: string) {
+        const hadLock = Boolean(this._ownLocks[blockId]) || Boolean(this._debouncedBlockUnlockingsMap[blockId])
+        delete this._ownLocks[blockId]
+        this.clearLockExpiry(blockId, this.socket.connectionId)
+        this._debouncedBlockUnlockingsMap[blockId]?.cancel()
+        delete this._debouncedBlockUnlockingsMap[blockId]
+        this._grantedBlockIds.delete(blockId)
+        if (this._currentEditorLockingBlockId === blockId) this._currentEditorLockingBlockId = null
+        if (hadLock) this.emit('block-unlocked', { source: 'remote', connectionId: clearedBy, blockId })
+    }
 
-        const isBlockLocked = this.lockedBlocks.some(b => b.blockId === targetId && b.connectionId !== this.socket.connectionId)
-        if (isBlockLocked) return
+    private clearEditRequest(blockId: string) {
+        window.clearTimeout(this._editRequests[blockId]?.timeout)
+        delete this._editRequests[blockId]
+    }
 
-        const shouldBlockHaveInternalState = this.config.toolsWithDataCheck.includes(target.name)
+    //#region Lock Arbitration
+    // typing into a block is only allowed once the arbiter granted its lock
+    private onBeforeInput = (e: Event) => {
+        if (!(e.target instanceof HTMLElement) || !this.hasLockArbiter) return
+        const blockId = e.target.closest(`.${this.EditorCSS.baseBlock}`)?.getAttribute(this.blockIdAttributeName)
+        if (!blockId || this._grantedBlockIds.has(blockId) || this._ownLocks[blockId]) return
+        const blockApi = this.editor.blocks.getById(blockId)
+        if (blockApi && this.isTextSyncTool(blockApi.name)) return
+
+        this.requestBlockLock(blockId)
+        // the arbiter is this user and granted the lock right away
+        if (this._grantedBlockIds.has(blockId)) return
+
+        e.preventDefault()
+        const pendingInput = this.getPendingInput(e)
+        if (pendingInput) this._lockRequests[blockId]?.pendingInputs.push(pendingInput)
+    }
 
+    private getPendingInput(e: Event): PendingInput | null {
+        if (!(e instanceof InputEvent)) return null
+        switch (e.inputType) {
+            case 'insertText':
+            case 'insertReplacementText':
+            case 'insertFromPaste':
+            case 'insertFromDrop': {
+                const text = e.data ?? e.dataTransfer?.getData('text/plain')
+                return text ? { command: 'insertText', value: text } : null
+            }
+            case 'deleteContentBackward':
+                return { command: 'delete' }
+            case 'deleteContentForward':
+                return { command: 'forwardDelete' }
+            default:
+                return null
+        }
+    }
 
-        // block changes are throttled, thus se have this separate from the other DOM events
-        if (type === 'block-changed') {
-            // some tools, such as table, emit block-changed events even if i click on another block in the redactor 🤦‍♂️
-            if (shouldBlockHaveInternalState) {
-                // TODO this might cause an async race.
-                const savedData = await target.save()
-                if (!savedData) return
+    /**
+     * Apply the inputs typed while waiting for the grant, unless the user moved on to another block in the meantime
+     */
+    private replayPendingInputs(blockId: string, pendingInputs: PendingInput[]) {
+        const selection = document.getSelection()
+        const blockElement = this.getDOMBlockById(blockId)
+        if (!pendingInputs.length || !blockElement || !selection?.anchorNode || !blockElement.contains(selection.anchorNode)) return
 
-                const dataToCompareWith = { data: savedData.data, tunes: (savedData as any).tunes };
-                const hasSameData = this.compareToolsData(this._customToolsInternalState[targetId], dataToCompareWith);
-                if (hasSameData && this._currentEditorLockingBlockId !== targetId) return; // skip this nonsense if false alarms are detected
-                this._customToolsInternalState[targetId] = dataToCompareWith;
-            }
-            if (this._currentEditorLockingBlockId == targetId) {
-                this.debouncedBlockUnlocking(targetId, this.socket.connectionId)
-            }
-            else {
-                this._currentEditorLockingBlockId = targetId;
-                this.socket.send({ type: BlockLockedType, blockId: targetId, connectionId: this.socket.connectionId })
+        // execCommand keeps the browser's undo history and fires the same input events as typing
+        pendingInputs.forEach(({ command, value }) => document.execCommand(command, false, value))
+    }
 
-                // Remove any other user's cursor/selection in this block
-                this.getFakeCursors({ blockId: targetId })?.forEach(cursor => cursor.remove())
-                this.getFakeSelections({ blockId: targetId })?.forEach(sel => sel.remove())
-                this.debouncedBlockUnlocking(targetId, this.socket.connectionId)
-            }
+    private get hasLockArbiter() {
+        return Boolean(this.config.lockArbiter) && !this._isLockArbiterGone
+    }
+
+    private requestBlockLock(blockId: string, lockOptions?: BlockLockOptions) {
+        if (!this.config.lockArbiter || this._isLockArbiterGone) return
+        if (this._lockRequests[blockId]) {
+            // `lockBlock()` while a typing lock is requested, the granted lock becomes the explicit one
+            if (lockOptions) this._lockRequests[blockId].lockOptions = lockOptions
+            return
         }
+        const isLockedByOtherUser = this.lockedBlocks.some(b => b.blockId === blockId)
+        if (isLockedByOtherUser) return
+
+        const requestId = createId()
+        const timeout = window.setTimeout(() => this.clearLockRequest(blockId), this.config.lockArbiter.requestTimeout ?? 5_000)
+        this._lockRequests[blockId] = { requestId, timeout, pendingInputs: [], lockOptions }
+
+        // the arbiter starts the lease when granting, the lock is released if the user never locks the block
+        const leaseDuration = lockOptions?.pinned ? undefined : this.config.lockLeaseDuration
+        const request: MessageData = { type: BlockLockRequestType, blockId, connectionId: this.socket.connectionId, requestId, leaseDuration }
+        if (this._lockArbiter) this.sendLockArbiterAnswers(this._lockArbiter.handleMessage(request))
+        else this.sendMessage(request)
+    }
 
-        //save after dom changes have been propagated to the necessary tools
-        setTimeout(async () => {
-            if (type === 'block-changed') {
-                if (!('index' in otherData) || typeof otherData.index !== 'number') return
-                this.throttledBlockChange?.(target, otherData.index ?? 0)
-                setTimeout(() => {
-                    this.throttledInlineSelectionChange?.()
-                }, 0)
-                return
-            }
+    private sendLockArbiterAnswers(answers: MessageData[]) {
+        for (const answer of answers) {
+            // the arbiter answering its own request
+            if ('targetConnectionId' in answer && answer.targetConnectionId === this.socket.connectionId) this.onReceiveChange(answer)
+            else this.sendMessage(answer)
+        }
+    }
 
-            const savedData = await target.save()
-            if (!savedData) return
+    // the arbiter does not receive its own messages, but has to know the locks of this user
+    private sendLockMessage(message: MessageData) {
+        this.sendMessage(message)
+        this._lockArbiter?.handleMessage(message)
+    }
 
-            const socketData: Partial<MessageData> = {
-                type,
-                block: savedData,
-            }
-            if (socketData.type === 'block-added') {
-                socketData.index = (otherData as PickFromConditionalType<PossibleEventDetails, 'block-added'>).index
-                if (shouldBlockHaveInternalState)
-                    this._customToolsInternalState[targetId] = { data: savedData.data, tunes: (savedData as any).tunes ?? {} };
-            }
-            if (socketData.type === 'block-removed') {
-                socketData.blockId = targetId
-                if (shouldBlockHaveInternalState)
-                    delete this._customToolsInternalState[targetId];
-            }
-            if (socketData.type === 'block-moved') {
-                const { fromIndex, toIndex } = otherData as PickFromConditionalType<PossibleEventDetails, 'block-moved'>
-                socketData.fromBlockId = targetId
-                socketData.toBlockIndex = toIndex
-                //at this point the blocks already switched places
-                socketData.toBlockId = this.editor.blocks.getBlockByIndex(fromIndex)?.id
-            }
-            this.socket.send(socketData as MessageData)
-        }, 0)
+    private clearLockRequest(blockId: string) {
+        window.clearTimeout(this._lockRequests[blockId]?.timeout)
+        delete this._lockRequests[blockId]
+    }
+
+    private clearLockRequests() {
+        Object.keys(this._lockRequests).forEach(blockId => this.clearLockRequest(blockId))
     }
 
     //#region Throttled & Debounced Handlers
@@ -810,30 +3138,66 @@ export default class GroupCollab {
             if (!savedData) return
 
             this.applyNeccessaryChanges(target, savedData);
-            const socketData: MessageData = {
-                type: 'block-changed',
-                block: savedData,
-                index,
-            }
-
             if (!this.isListening) return
-            this.socket.send(socketData)
+            this.emit('block-changed', { source: 'local', connectionId: this.socket.connectionId, blockId: targetId, index })
+            // text typed before a remote cursor moves it
+            this.debouncedRemoteSelectionsRender()
+            // text operations can not be merged with the remote state after reconnecting, offline changes send the full block
+            if (this.isTextSyncTool(target.name) && this._socketStatus === 'connected' && this.sendTextOperations(savedData)) return
+
+            const patch = this.config.blockChangeDeltas ? this.createBlockPatch(targetId, savedData.data) : null
+            const version = this.nextBlockVersion(targetId)
+            this._lastKnownBlockData[targetId] = { data: savedData.data, version: { ...version } }
+            const socketData: MessageData = patch
+                ? { type: 'block-changed', blockId: targetId, tool: target.name, index, ...patch, version }
+                : { type: 'block-changed', block: savedData, index, version }
+            this.sendMessage(socketData)
+            if (this.isTextSyncTool(target.name)) this.initializeTextSyncState(targetId, savedData.data, (savedData as any).tunes)
             this.addBlockToIgnoreListUntilNextRender(targetId, 'block-changed')
         })
     }
 
+    private lockBlockWhileTyping(blockId: string) {
+        if (this._currentEditorLockingBlockId == blockId) {
+            this.debouncedBlockUnlocking(blockId, this.socket.connectionId)
+        }
+        // typing waits for the grant, this is a change that does not go through beforeinput (e.g. block tunes)
+        else if (this.hasLockArbiter && !this._grantedBlockIds.has(blockId)) {
+            this.requestBlockLock(blockId)
+        }
+        else {
+            this.acquireBlockLock(blockId)
+        }
+    }
+
+    private acquireBlockLock(blockId: string) {
+        this._currentEditorLockingBlockId = blockId;
+        const lock: LockedBlock = { blockId, connectionId: this.socket.connectionId, leaseDuration: this.config.lockLeaseDuration }
+        this.sendLockMessage({ type: BlockLockedType, ...lock })
+        this.emit('block-locked', { source: 'local', ...lock })
+
+        // Remove any other user's cursor/selection in this block
+        this.getFakeCursors({ blockId })?.forEach(cursor => cursor.remove())
+        this.getFakeSelections({ blockId })?.forEach(sel => sel.remove())
+        this.debouncedBlockUnlocking(blockId, this.socket.connectionId)
+    }
+
+    private releaseTypingLock(blockId: string, connectionId: string) {
+        this.sendLockMessage({ type: BlockUnlockedType, blockId, connectionId })
+        this._grantedBlockIds.delete(blockId)
+        this.emit('block-unlocked', { source: 'local', connectionId, blockId })
+        if (this.currentLockedBlockId === blockId)
+            this._currentEditorLockingBlockId = null;
+        delete this._debouncedBlockUnlockingsMap?.[blockId];
+    }
+
     private debouncedBlockUnlocking(blockId: string, connectionId: string) {
         const debouncedFunc = this._debouncedBlockUnlockingsMap?.[blockId];
         if (debouncedFunc) {
             debouncedFunc(blockId, connectionId);
             return;
         }
-        const newDebouncedFunc = debounce(this.config.blockLockDebounceTime, (bId: string, connId: string) => {
-            this.socket.send({ type: BlockUnlockedType, blockId: bId, connectionId: connId })
-            if (this.currentLockedBlockId === bId)
-                this._currentEditorLockingBlockId = null;
-            delete this._debouncedBlockUnlockingsMap?.[bId];
-        });
+        const newDebouncedFunc = debounce(this.config.blockLockDebounceTime, (bId: string, connId: string) => this.releaseTypingLock(bId, connId));
         this._debouncedBlockUnlockingsMap = {
             ...(this._debouncedBlockUnlockingsMap),
             [blockId]: newDebouncedFunc
@@ -846,8 +3210,8 @@ export default class GroupCollab {
     private getFakeCursors({ blockId, connectionId }: Partial<Record<"blockId" | "connectionId", string>>) {
         const editorHolder = this.getEditorHolder()
         if (!blockId && !connectionId) return editorHolder?.querySelectorAll(`[${this.inlineFakeCursorAttributeName}]`)
-        const connectionQuery = connectionId ? `[${this.connectionIdAttributeName}='${connectionId}']` : ""
-        const blockIdQuery = blockId ? `[${this.inlineFakeCursorAttributeName}='${blockId}']` : "";
+        const connectionQuery = connectionId ? `[${this.connectionIdAttributeName}='${CSS.escape(connectionId)}']` : ""
+        const blockIdQuery = blockId ? `[${this.inlineFakeCursorAttributeName}='${CSS.escape(blockId)}']` : "";
         const domCursors = editorHolder?.querySelectorAll(
             `${blockIdQuery}${connectionQuery}`,
         )
@@ -863,9 +3227,9 @@ export default class GroupCollab {
     }
 
     private getFakeSelections({ blockId, connectionId }: Partial<Record<"blockId" | "connectionId", string>>) {
-        const connectionQuery = connectionId ? `[${this.connectionIdAttributeName}='${connectionId}']` : ""
-        return this.getEditorHolder()?.querySelectorAll(
-            `[${this.inlineFakeSelectionAttributeName}${blockId ? `='${blockId}'` : ""}]${connectionQuery}`,
+        const connectionQuery = connectionId ? `[${this.connectionIdAttributeName}='${CSS.escape(connectionId)}']` : ""
+        return this.getEditorHolder()?.querySelectorAll<HTMLElement>(
+            `[${this.inlineFakeSelectionAttributeName}${blockId ? `='${CSS.escape(blockId)}'` : ""}]${connectionQuery}`,
         )
     }
 
@@ -888,36 +3252,32 @@ export default class GroupCollab {
         if (!selection) return null
         if (!selection.rangeCount) return null
 
-        const { anchorNode, anchorOffset, focusOffset } = selection
-        if (!anchorNode) return null
+        const { anchorNode, anchorOffset, focusNode, focusOffset } = selection
+        if (!anchorNode || !focusNode) return null
         if (!anchorNode.isConnected) return null
 
         if (!this.isNodeInsideOfEditor(anchorNode)) return null
 
-        const { parentElement } = anchorNode
-        if (!parentElement) return null
-
         const contentAndBlockId = this.getContentAndBlockIdFromNode(anchorNode)
         if (!contentAndBlockId) return null
-        const { blockId, contentElement } = contentAndBlockId
+        const containerWidth = contentAndBlockId.contentElement.clientWidth
 
-        const elementNodeIndex = this.getNodeRelativeChildIndex(anchorNode)
-        if (elementNodeIndex === null) return null
-        const path = this.getElementXPath(parentElement)
-        const containerWidth = contentElement.clientWidth
+        const anchor = this.getTextPosition(anchorNode, anchorOffset)
+        if (!anchor) return null
+        // a selection that ends outside of the editor is shown as a cursor at its anchor
+        const focus = this.getTextPosition(focusNode, focusOffset) ?? anchor
 
         const data: PickFromConditionalType<MessageData, typeof UserInlineSelectionChangeType> = {
             type: UserInlineSelectionChangeType,
-            blockId,
-            elementXPath: path,
+            anchor,
+            focus,
             containerWidth,
-            anchorOffset,
-            focusOffset,
-            elementNodeIndex,
             // rects: finalRects,
 
             color: this.config.cursor?.color ?? '',
             selectionColor: this.config.cursor?.selectionColor ?? '',
+            userName: this.config.user?.name ?? '',
+            userAvatarUrl: this.config.user?.avatarUrl ?? '',
             connectionId: this.socket.connectionId
         }
 
@@ -925,12 +3285,13 @@ export default class GroupCollab {
     }
 
     private markExternalUserSeen(data: MessageData) {
-        if (!('connectionId' in data)) return
+        if (!('connectionId' in data) || LockArbiterAnswerTypes.includes(data.type)) return
 
         const { connectionId } = data
         if (!connectionId || connectionId === this.socket.connectionId) return
 
         this.externalUserLastSeenMap[connectionId] = Date.now()
+        if (connectionId === this.config.lockArbiter?.connectionId) this._isLockArbiterGone = false
     }
 
     private startExternalUserInactivityTracking() {
@@ -956,13 +3317,143 @@ export default class GroupCollab {
         if (!staleConnectionIds.length) return
 
         for (const connectionId of staleConnectionIds) {
-            this.getFakeSelections({ connectionId })?.forEach(selection => selection.remove())
-            this.getFakeCursors({ connectionId })?.forEach(cursor => cursor.remove())
-            this.lockedBlocks = this.lockedBlocks.filter(b => b.connectionId !== connectionId)
-            delete this.externalUserLastSeenMap[connectionId]
+            const { role } = this.getExternalUser(connectionId)
+            this.removeExternalUser(connectionId)
+            this._staleUserRoles[connectionId] = role
+            this.emit('user-stale', { connectionId })
+        }
+        this.notifyUsersChanged()
+    }
+
+    private removeExternalUser(connectionId: string) {
+        this.removeRemoteSelectionElements(connectionId)
+        delete this._remoteSelections[connectionId]
+        delete this._remoteSelectionTexts[connectionId]
+        delete this._remoteViewports[connectionId]
+        if (connectionId === this._followedConnectionId) this.stopFollowing()
+        this.lockedBlocks = this.lockedBlocks.filter(b => b.connectionId !== connectionId || b.pinned)
+        delete this.externalUserLastSeenMap[connectionId]
+        delete this._peerProtocols[connectionId]
+        delete this._externalUsers[connectionId]
+        delete this._staleUserRoles[connectionId]
+        this._lockArbiter?.releaseAll(connectionId)
+        if (connectionId === this.config.lockArbiter?.connectionId) {
+            this._isLockArbiterGone = true
+            // nobody answers these anymore, typing locks blocks right away now
+            this.clearLockRequests()
+            console.warn(`The lock arbiter "${connectionId}" left, blocks are locked without it until it is back`)
+        }
+    }
+
+    //#region Events
+    private emit<K extends CollabEventName>(event: K, payload: CollabEventMap[K]) {
+        this._eventHandlers[event]?.forEach((handler) => {
+            // a failing handler must not break syncing
+            try {
+                handler(payload)
+            } catch (e) {
+                console.error(`Error in "${event}" event handler`, e)
+            }
+        })
+    }
+
+    //#region Roles
+    private get canEditBlocks() {
+        return this.config.role === 'editor'
+    }
+
+    /**
+     * Block messages carry their author in the version instead of a top level connection id
+     */
+    private getMessageSender(data: unknown): string | null {
+        if (typeof data !== 'object' || data === null) return null
+        const { connectionId, version } = data as { connectionId?: unknown; version?: { connectionId?: unknown } | null }
+        if (typeof connectionId === 'string') return connectionId
+        if (typeof version?.connectionId === 'string') return version.connectionId
+        return null
+    }
+
+    private getBlockOperationAuthor(message: MessageData): string | null {
+        switch (message.type) {
+            case 'block-added':
+            case 'block-changed':
+            case 'block-moved':
+            case 'block-removed':
+                return message.version.connectionId
+            case BlockTextOperationType:
+            case BlockLockedType:
+            case BlockLockRequestType:
+            case BlockEditRequestType:
+            case BlockLockTakeoverType:
+            case BlockLockRenewType:
+            case BlockLockClearType:
+                return message.connectionId
+            default:
+                return null
+        }
+    }
+
+    private async makeEditorReadOnly() {
+        try {
+            await this.editor.isReady
+            if (this.editor.readOnly.isEnabled) return
+            // remote changes are applied through the blocks API, which works in read-only mode as well
+            await this.editor.readOnly.toggle(true)
+        } catch (e) {
+            console.error(`Could not make the editor read-only for the "${this.config.role}" role`, e)
+        }
+    }
+
+    //#region Users
+    private announcePresence(targetConnectionId?: string) {
+        if (!this.isListening) return
+
+        const user: UserMetadata = { ...this.config.user }
+        if (!user.color && this.config.cursor?.color) user.color = this.config.cursor.color
+        const isIdle = document.visibilityState !== 'visible' || !document.hasFocus()
+        this.sendMessage({ type: UserPresenceAnnounceType, connectionId: this.socket.connectionId, user, role: this.config.role, isIdle, targetConnectionId })
+    }
+
+    // users that did not announce themselves (yet) and older versions that never do are editors,
+    // with `authentication` they can not edit until they announce themselves
+    private getExternalUser(connectionId: string): ExternalUser {
+        const externalUser = this._externalUsers[connectionId]
+        if (externalUser) return externalUser
+        const role = this._staleUserRoles[connectionId] ?? (this.config.authentication ? 'viewer' : 'editor')
+        return { user: {}, role, isIdle: false, currentBlockId: null }
+    }
+
+    private getCollabUser(connectionId: string): CollabUser {
+        const { user, role, isIdle, currentBlockId } = this.getExternalUser(connectionId)
+        return {
+            connectionId,
+            role,
+            name: user.name ?? '',
+            avatarUrl: user.avatarUrl ?? null,
+            color: user.color ?? '',
+            isIdle,
+            currentBlockId,
+            lockedBlockIds: this._lockedBlocks.filter(b => b.connectionId === connectionId).map(b => b.blockId),
         }
     }
 
+    private updateExternalUser(connectionId: string, changes: Partial<ExternalUser>) {
+        this._externalUsers[connectionId] = { ...this.getExternalUser(connectionId), ...changes }
+        delete this._staleUserRoles[connectionId]
+    }
+
+    private notifyUsersChanged() {
+        // users moved between blocks, or locked and unlocked blocks
+        this.throttledPresenceBadgesUpdate()
+        if (!this.config.onUsersChanged) return
+
+        const users = this.users
+        const serializedUsers = JSON.stringify(users)
+        if (serializedUsers === this._lastNotifiedUsers) return
+        this._lastNotifiedUsers = serializedUsers
+        this.config.onUsersChanged(users)
+    }
+
     private startPresencePing() {
         this.stopPreviousPresencePing()
         this.presencePingInterval = window.setInterval(() => {
@@ -970,7 +3461,7 @@ export default class GroupCollab {
             if (document.visibilityState !== 'visible') return
             if (!document.hasFocus()) return
 
-            this.socket.send({ type: UserPresencePingType, connectionId: this.socket.connectionId })
+            this.sendMessage({ type: UserPresencePingType, connectionId: this.socket.connectionId })
         }, Math.max(1_000, Math.floor(this.config.externalUserIdleTimeout / 2)))
     }
 
@@ -1016,9 +3507,11 @@ export default class GroupCollab {
         const styleElement = this.editorStyleElement;
         if (!styleElement) return;
         const stringifiedStyles = this.stringifyStyles(styles);
+        // the selector would match the blocks of other editors on the page as well
+        const scopedSelector = `[${this.instanceAttributeName}='${this.instanceId}'] ${selector}`
 
         const comment = document.createComment(`nonce: ${nonce}`);
-        styleElement.insertAdjacentText('beforeend', `${selector} {  ${stringifiedStyles} }`);
+        styleElement.insertAdjacentText('beforeend', `${scopedSelector} {  ${stringifiedStyles} }`);
         styleElement.insertBefore(comment, styleElement.lastChild);
     }
 
@@ -1046,24 +3539,126 @@ export default class GroupCollab {
     }
 
     private getDOMBlockById(blockId: string) {
-        const block = this.getEditorHolder()?.querySelector(`[${this.blockIdAttributeName}='${blockId}']`)
+        const block = this.getEditorHolder()?.querySelector(`[${this.blockIdAttributeName}='${CSS.escape(blockId)}']`)
         if (block instanceof HTMLElement) return block
         return null
     }
 
+    // Lookups only fall back to the whole page when it has a single editor, another editor must not be found instead
     private getRedactor(): HTMLElement | null {
         const redactor =
-            (this.editor as any)?.ui.redactor ??
-            this.getEditorHolder()?.querySelector(`.${this.EditorCSS.editorRedactor}`) ??
-            document.querySelector(`.${this.EditorCSS.editorRedactor}`)
+            (this.editor as any)?.ui?.redactor ??
+            this.getEditorHolder()?.querySelector(`.${this.EditorCSS.editorRedactor}`)
         if (!(redactor instanceof HTMLElement)) return null
         return redactor
     }
 
     private getEditorHolder(): HTMLElement | null {
-        return (this.editor as any)?.ui.wrapper ??
-            document.querySelector(`#${(this.editor as any)?.configuration.holder} .${this.EditorCSS.editorWrapper}`) ??
-            document.querySelector(`.${this.EditorCSS.editorWrapper}`)
+        const wrapper =
+            (this.editor as any)?.ui?.wrapper ??
+            this.getConfiguredHolder()?.querySelector(`.${this.EditorCSS.editorWrapper}`) ??
+            this.getOnlyEditorOnPage()
+        if (!(wrapper instanceof HTMLElement)) return null
+        return wrapper
+    }
+
+    private getOnlyEditorOnPage(): Element | null {
+        const wrappers = document.querySelectorAll(`.${this.EditorCSS.editorWrapper}`)
+        return wrappers.length === 1 ? wrappers[0] : null
+    }
+
+    private getConfiguredHolder(): HTMLElement | null {
+        const { holder, holderId } = (this.editor as any)?.configuration ?? {}
+        if (holder instanceof HTMLElement) return holder
+        const id = holder ?? holderId
+        return typeof id === 'string' ? document.getElementById(id) : null
+    }
+
+    // `lockedBlocks` only contains the blocks locked by other users
+    private getLockTable(): LockedBlock[] {
+        const lockedBlocks = [...this.lockedBlocks, ...Object.values(this._ownLocks).map(b => ({ ...b }))]
+        if (this._currentEditorLockingBlockId && !this._ownLocks[this._currentEditorLockingBlockId])
+            lockedBlocks.push({ blockId: this._currentEditorLockingBlockId, connectionId: this.socket.connectionId, leaseDuration: this.config.lockLeaseDuration })
+        return lockedBlocks
+    }
+
+    private scheduleLockExpiry({ blockId, connectionId }: LockedBlock) {
+        const key = this.getLockExpiryKey(blockId, connectionId)
+        if (this._lockExpiryTimeouts[key]) return
+        const lock = this.findLock(blockId, connectionId)
+        const expiresAt = lock && this.getLockExpiry(lock)
+        if (!expiresAt) return
+
+        this._lockExpiryTimeouts[key] = window.setTimeout(() => {
+            delete this._lockExpiryTimeouts[key]
+            const currentLock = this.findLock(blockId, connectionId)
+            const currentExpiresAt = currentLock && this.getLockExpiry(currentLock)
+            if (!currentLock || !currentExpiresAt) return
+            // the lease was renewed in the meantime
+            if (currentExpiresAt > Date.now()) {
+                this.scheduleLockExpiry(currentLock)
+                return
+            }
+
+            if (connectionId === this.socket.connectionId) {
+                this.unlockBlock(blockId)
+                return
+            }
+            // every user removes expired locks itself, the owner might be gone already
+            const isStillLocked = this.lockedBlocks.some(b => b.blockId === blockId && b.connectionId === connectionId)
+            if (!isStillLocked) return
+            this.lockedBlocks = this.lockedBlocks.filter(b => !(b.blockId === blockId && b.connectionId === connectionId))
+            this.removeStyleFromDOM(blockId)
+            this.emit('block-unlocked', { source: 'remote', connectionId, blockId })
+            this.notifyUsersChanged()
+        }, Math.max(0, expiresAt - Date.now()))
+    }
+
+    private findLock(blockId: string, connectionId: string): LockedBlock | undefined {
+        if (connectionId === this.socket.connectionId) return this._ownLocks[blockId]
+        return this._lockedBlocks.find(b => b.blockId === blockId && b.connectionId === connectionId)
+    }
+
+    private getLockExpiry({ connectionId, expiresAt, leaseExpiresAt }: LockedBlock): number | null {
+        // this user renews its own leases as long as it holds the locks
+        const expiries = [expiresAt, connectionId === this.socket.connectionId ? undefined : leaseExpiresAt].filter((n): n is number => n !== undefined)
+        return expiries.length ? Math.min(...expiries) : null
+    }
+
+    // leases are measured on the receiver's clock, clocks of different users do not match
+    private startLockLease(lock: LockedBlock): LockedBlock {
+        if (!lock.leaseDuration) return { ...lock }
+        return { ...lock, leaseExpiresAt: Date.now() + lock.leaseDuration }
+    }
+
+    private startLeaseRenewal() {
+        this.stopPreviousLeaseRenewal()
+        this.leaseRenewalInterval = window.setInterval(() => {
+            if (!this.isListening) return
+            const typingLockIds = Object.keys(this._debouncedBlockUnlockingsMap)
+            const ownLockIds = Object.values(this._ownLocks).filter(b => b.leaseDuration).map(b => b.blockId)
+            for (const blockId of new Set([...typingLockIds, ...ownLockIds])) {
+                this.sendLockMessage({ type: BlockLockRenewType, blockId, connectionId: this.socket.connectionId, leaseDuration: this.config.lockLeaseDuration })
+            }
+        }, Math.max(1_000, Math.floor(this.config.lockLeaseDuration / 3)))
+    }
+
+    private stopPreviousLeaseRenewal() {
+        if (!this.leaseRenewalInterval) return
+
+        window.clearInterval(this.leaseRenewalInterval)
+        this.leaseRenewalInterval = undefined
+    }
+
+    private clearLockExpiry(blockId: string, connectionId: string) {
+        const key = this.getLockExpiryKey(blockId, connectionId)
+        window.clearTimeout(this._lockExpiryTimeouts[key])
+        delete this._lockExpiryTimeouts[key]
+    }
+
+    // a lock of another user on the same block has its own expiry
+    private getLockExpiryKey(blockId: string, connectionId: string) {
+        return `${connectionId}:${blockId}`
     }
 
     private renderLockedBlocks(oldLockedBlocks: LockedBlock[], newLockedBlocks: LockedBlock[]) {
@@ -1083,6 +3678,9 @@ export default class GroupCollab {
             })
             if (this.config.overrideStyles?.lockedBlockClass)
                 domBlock.classList.remove(this.config.overrideStyles.lockedBlockClass)
+            domBlock.removeAttribute(this.lockReasonAttributeName)
+            domBlock.removeAttribute(this.lockPinnedAttributeName)
+            if (block.reason) domBlock.removeAttribute('title')
         }
 
         for (const block of blocksToLock) {
@@ -1097,32 +3695,21 @@ export default class GroupCollab {
             domBlock.classList.add(this.CSS.lockedBlock)
             if (this.config.overrideStyles?.lockedBlockClass)
                 domBlock.classList.add(this.config.overrideStyles.lockedBlockClass)
+            if (block.pinned) domBlock.setAttribute(this.lockPinnedAttributeName, '')
+            if (block.reason) {
+                domBlock.setAttribute(this.lockReasonAttributeName, block.reason)
+                domBlock.setAttribute('title', block.reason)
+            }
         }
 
     }
 
-    // With stringify, the order of the keys might differ, so we need a deep comparison
     private compareToolsData(toolData1: ToolData, toolData2: ToolData): boolean {
-        function recursiveCompare(obj1: any, obj2: any): boolean {
-            if (typeof obj1 !== typeof obj2) return false;
-            if (typeof obj1 !== 'object' || obj1 === null || obj2 === null) {
-                return obj1 === obj2;
-            }
-            const keys1 = Object.keys(obj1);
-            const keys2 = Object.keys(obj2);
-            if (keys1.length !== keys2.length) return false;
-            for (const key of keys1) {
-                if (!keys2.includes(key)) return false;
-                if (!recursiveCompare(obj1[key], obj2[key])) return false;
-            }
-            return true;
-        }
-        const value = recursiveCompare(toolData1, toolData2);
-        return value;
+        return deepEqual(toolData1, toolData2);
     }
-    private initializeCustomToolsState() {
-        const allBlocks = (this.editor as any).configuration.data?.blocks ?? [];
+    private initializeCustomToolsState(allBlocks: OutputData['blocks']) {
         for (const block of allBlocks) {
+            if (!block.id) continue
             if (this.config.toolsWithDataCheck.includes(block.type)) {
                 this._customToolsInternalState[block.id] = { data: block.data, tunes: (block as any).tunes ?? {} };
             }
@@ -1131,7 +3718,9 @@ export default class GroupCollab {
 
     private setupStyleElement() {
         this.editorStyleElement.setAttribute('data-realtime-collab-styles', '')
-        this.getEditorHolder()?.insertAdjacentElement('afterbegin', this.editorStyleElement)
+        const holder = this.getEditorHolder()
+        holder?.setAttribute(this.instanceAttributeName, this.instanceId)
+        holder?.insertAdjacentElement('afterbegin', this.editorStyleElement)
     }
 
     private getContentAndBlockIdFromNode(node: Node): { contentElement: HTMLElement; blockId: string } | null {
@@ -1155,23 +3744,90 @@ export default class GroupCollab {
         }
     }
 
-    private getBoundingClientRectForSelection(node: Node, anchorOffset: number, focusOffset: number): DOMRectList {
+    private getBlockInputs(contentElement: HTMLElement): HTMLElement[] {
+        // inputs of locked blocks are not editable for now, but keep their index
+        const inputs = Array.from(contentElement.querySelectorAll<HTMLElement>('[contenteditable]'))
+        const outerInputs = inputs.filter(input => !inputs.some(other => other !== input && other.contains(input)))
+        // tools without inputs, e.g. images, are addressed as a whole
+        return outerInputs.length ? outerInputs : [contentElement]
+    }
+
+    private getTextPosition(node: Node, offset: number): InlineSelectionPosition | null {
+        const contentAndBlockId = this.getContentAndBlockIdFromNode(node)
+        if (!contentAndBlockId) return null
+        const { blockId, contentElement } = contentAndBlockId
+
+        const inputs = this.getBlockInputs(contentElement)
+        const inputRange = document.createRange()
+        for (let inputIndex = 0; inputIndex < inputs.length; inputIndex++) {
+            inputRange.selectNodeContents(inputs[inputIndex])
+            const comparison = inputRange.comparePoint(node, offset)
+            // positions between inputs, e.g. of a selection across blocks, belong to the next input
+            if (comparison < 0) return { blockId, inputIndex, offset: 0 }
+            if (comparison === 0) return { blockId, inputIndex, offset: this.getTextOffset(inputs[inputIndex], node, offset) }
+        }
+
+        const inputIndex = inputs.length - 1
+        return { blockId, inputIndex, offset: inputs[inputIndex].textContent?.length ?? 0 }
+    }
+
+    private getInputAtPosition({ blockId, inputIndex }: InlineSelectionPosition): HTMLElement | null {
+        const contentElement = this.getDOMBlockById(blockId)?.querySelector(`.${this.EditorCSS.blockContent}`)
+        if (!(contentElement instanceof HTMLElement)) return null
+        return this.getBlockInputs(contentElement)[inputIndex] ?? null
+    }
+
+    private getDOMPositionFromTextPosition(position: InlineSelectionPosition): { node: Node; offset: number } | null {
+        const input = this.getInputAtPosition(position)
+        if (!input) return null
+        const { offset } = position
+
+        // positions after the end of the text, e.g. when a change did not arrive yet, are moved to the end
+        return this.getDOMPositionFromTextOffset(input, offset)
+    }
+
+    // the focus can be before the anchor when the user selected backwards
+    private createOrderedRange(anchor: { node: Node; offset: number }, focus: { node: Node; offset: number }): Range | null {
         const range = document.createRange()
-        const start = Math.min(anchorOffset, focusOffset)
-        const end = Math.max(anchorOffset, focusOffset)
-        range.setStart(node, start)
-        range.setEnd(node, end)
-        const rect = range.getClientRects()
-        return rect
+        try {
+            range.setStart(anchor.node, anchor.offset)
+            range.collapse(true)
+            if (range.comparePoint(focus.node, focus.offset) < 0) range.setStart(focus.node, focus.offset)
+            else range.setEnd(focus.node, focus.offset)
+        } catch (e) {
+            // the offsets do not fit the content anymore, e.g. the block changed since the selection was sent
+            return null
+        }
+        return range
+    }
 
+    // Only the rects of the selected text, the rects of a range across blocks also contain the whole block elements in between
+    private getSelectionRects(range: Range): { blockId: string; rect: DOMRect }[] {
+        const selectionRects: { blockId: string; rect: DOMRect }[] = []
+        const root = range.commonAncestorContainer
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+        let textNode: Node | null = root.nodeType === Node.TEXT_NODE ? root : walker.nextNode()
+        while (textNode) {
+            const blockId = range.intersectsNode(textNode) && this.getContentAndBlockIdFromNode(textNode)?.blockId
+            if (blockId) {
+                const textRange = document.createRange()
+                textRange.selectNodeContents(textNode)
+                if (textNode === range.startContainer) textRange.setStart(textNode, range.startOffset)
+                if (textNode === range.endContainer) textRange.setEnd(textNode, range.endOffset)
+                for (const rect of Array.from(textRange.getClientRects())) {
+                    if (rect.width > 0) selectionRects.push({ blockId, rect })
+                }
+            }
+            textNode = walker.nextNode()
+        }
+        return selectionRects
     }
 
     private isNodeInsideOfEditor(node: Node) {
-        const redactor = (this.editor as any)?.ui?.nodes?.redactor
+        const redactor = (this.editor as any)?.ui?.nodes?.redactor ?? this.getRedactor()
         if (redactor instanceof HTMLElement) return redactor.contains(node)
-        const holder = (this.editor as any)?.configuration?.holder
-        if (holder && typeof holder === 'string') return document.getElementById(holder)?.contains(node)
 
+        // blocks of this editor are found through its API, blocks of other editors are not
         let currentElement = node.parentElement
         while (currentElement && currentElement !== document.body) {
             const blockId = currentElement.getAttribute(this.blockIdAttributeName)
@@ -1191,7 +3847,7 @@ export default class GroupCollab {
             const dataId = element.getAttribute(this.blockIdAttributeName)
             let elementSelector = element.localName.toLowerCase()
             if (dataId)
-                elementSelector += `[${this.blockIdAttributeName}='${dataId}']`
+                elementSelector += `[${this.blockIdAttributeName}='${CSS.escape(dataId)}']`
 
             const ignoreNthChild = omitCountForBlock && dataId;
             if (!ignoreNthChild && element.previousElementSibling) {
@@ -1210,14 +3866,26 @@ export default class GroupCollab {
         return paths.join(directChildSelector)
     }
 
-    private getNodeRelativeChildIndex(node: Node): number | null {
-        const { parentElement } = node
-        if (!parentElement) return null
-        for (let i = 0; i < parentElement.childNodes.length; i++) {
-            if (node === parentElement.childNodes[i]) return i
+    private getTextOffset(root: HTMLElement, node: Node, offset: number): number {
+        const range = document.createRange()
+        range.selectNodeContents(root)
+        range.setEnd(node, offset)
+        return range.toString().length
+    }
+
+    private getDOMPositionFromTextOffset(root: HTMLElement, textOffset: number): { node: Node; offset: number } {
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+        let remainingOffset = textOffset
+        let lastTextNode: Node | null = null
+        while (walker.nextNode()) {
+            const textLength = walker.currentNode.textContent?.length ?? 0
+            if (remainingOffset <= textLength) return { node: walker.currentNode, offset: remainingOffset }
+            remainingOffset -= textLength
+            lastTextNode = walker.currentNode
         }
 
-        return null
+        if (lastTextNode) return { node: lastTextNode, offset: lastTextNode.textContent?.length ?? 0 }
+        return { node: root, offset: root.childNodes.length }
     }
 
     private applyNeccessaryChanges(target: BlockAPI, savedData: SavedData) {
@@ -1242,28 +3910,5 @@ export default class GroupCollab {
         }
     }
 
-    private calculateRelativeRects(inputRects: Rect[], inputContainerWidth: number, currentContainer: HTMLElement): Rect[] {
-        const outputRects: Rect[] = []
-
-        const currentWidth = currentContainer.clientWidth
-        if (inputContainerWidth === currentWidth) return inputRects // Wow that was easy
-
-        const isScaledDownNow = currentWidth < inputContainerWidth
-        // ex if left+width > currentWidth => needs to be broken down
-
-        //TODO i have to wrap the content inside a span so i have the correct width 😓 maybe?
-        let currentRect = inputRects.at(0)
-        let rectWidthsSum = 0
-
-        // NOTE: when you have multiblock selection, the `Left` value indicates how much distance is between the TEXT and HtmlElement container
-        if (isScaledDownNow) {
-        } else {
-            for (const r of inputRects) {
-            }
-        }
-
-        return outputRects
-    }
-
 
 }